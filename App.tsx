@@ -1,22 +1,89 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import type { View, Playlist, Song, PlaybackMode, RepeatMode } from './types';
-import { getYouTubeId } from './services/youtubeService';
-import { PlayIcon, PauseIcon, NextTrackIcon, PrevTrackIcon, ChevronRightIcon, RepeatIcon, RepeatOneIcon, MoonIcon, SunIcon } from './components/icons';
-
-// --- Type definition for YouTube Player API ---
-declare global {
-  interface Window {
-    onYouTubeIframeAPIReady: () => void;
-    YT: any;
-  }
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import type { View, Playlist, Song, SongSource, LocalAudioFile, ListeningStats, NowPlayingWheelMode, SmartPlaylistRules, SmartRule, LibraryCommand, NavigationContext, ScreenParams, PlaybackSession, PlaybackMode, RepeatMode, ShuffleMode, PlayQueue, UpNextItem, InputBindings, WheelAction, Theme, Skin, AppSettings, SettingKey, VibrationStrength, LibraryExport, LibraryMergeReport, SongListEntry } from './types';
+import { parseSongList, SONG_LIST_FILE_TYPES } from './services/songListParser';
+import { applySongMetadata, metadataResolver, needsMetadata } from './services/metadataService';
+import { formatTime } from './services/timeFormat';
+import { createPlayQueue, getCurrentSongId, setQueueShuffled, syncPlayQueue } from './services/playQueue';
+import { openLibraryStore } from './services/libraryStore';
+import { buildAutoPlaylists, createListeningTracker, getLibrarySongs, loadListeningStats, markSongsAdded } from './services/listeningHistory';
+import { adjustSmartPlaylistLimit, adjustSmartRule, createSmartPlaylistRules, createSmartRule, cycleSmartRuleField, describeSmartRule, describeSmartRuleValue, evaluateSmartPlaylist, getSmartRuleValueKeys, resolveSmartPlaylists, SMART_PLAYLIST_SORTS, SMART_PLAYLIST_SORT_LABELS, SMART_RULE_FIELD_LABELS, SMART_RULE_NUMBER_VALUES, type SmartRuleNumberKey } from './services/smartPlaylists';
+import { applySongRating, createTopRatedPlaylist, findSongRating, formatRating, MAX_RATING } from './services/ratings';
+import { createOnTheGoPlaylist, loadOnTheGo, ON_THE_GO_ID, saveOnTheGo } from './services/onTheGo';
+import { hasResumableSong, loadPlaybackSession, savePlaybackSession, validatePlaybackSession } from './services/playbackSession';
+import { applyLibraryCommand, EMPTY_HISTORY, getHistorySongs, invertLibraryCommand, pushHistoryEntry, type LibraryHistory } from './services/libraryHistory';
+import { createUpNextItem, loadUpNext, moveUpNextItem, resolveUpNextSong, saveUpNext } from './services/upNext';
+import { DEFAULT_INPUT_BINDINGS, LONG_PRESS_DELAY_MS, WHEEL_ACTIONS, WHEEL_ACTION_LABELS, describeBindings, describeButton, describeKey, findButtonConflict, findKeyConflict, loadInputBindings, rebindButton, rebindKey, saveInputBindings } from './services/inputBindings';
+import { createLibraryExport, downloadLibraryExport, dropMissingLocalSongs, LibraryImportError, mergeLibraries, parseLibraryExport } from './services/libraryTransfer';
+import type { PlayerAdapter, PlayerError, PlayerState } from './services/playerAdapter';
+import { createYouTubePlayerAdapter } from './services/youtubePlayerAdapter';
+import { createFakePlayerAdapter } from './services/fakePlayerAdapter';
+import { createAudioPlayerAdapter } from './services/audioPlayerAdapter';
+import { importLocalAudioFiles, isAudioFile, isLocalSong, LOCAL_AUDIO_FILE_TYPES } from './services/localAudio';
+import { finishSong, peekFinishSong, restartSong, skipToNext, skipToPrevious, type PlaybackContext, type PlaybackTransition } from './services/playbackController';
+import { startCrossfade, type Crossfade } from './services/crossfade';
+import { createNavigationStack, finishFlow, getTopScreen, popScreen, popToRoot, popToScreen, pushScreen, replaceScreen, setScreenSelection, type NavigationStack } from './services/navigationStack';
+import { buildMusicLibrary, findMusicCollection, getIndexLetter, getLetterJumpIndex, getMusicPlaylists, getSongCredits, MUSIC_SEARCH_ID, MUSIC_SONGS_ID, searchMusic, SEARCH_KEYS, toMusicPlaylist } from './services/musicLibrary';
+import { addCustomSkin, BUILT_IN_SKINS, DEFAULT_SKIN_ID, findSkin, getSkinStyle, loadCustomSkins, parseSkinFile, saveCustomSkins, SkinImportError } from './services/skins';
+import { DEFAULT_SETTINGS, describeSetting, getSettingOptions, loadSettings, saveSettings, SETTING_CHOICES, SETTING_KEYS } from './services/settings';
+import { translate } from './services/i18n';
+import { findLyricLine, loadLyrics, LYRICS_FILE_TYPES, parseLyrics, saveLyrics, setSongLyrics } from './services/lyrics';
+import { useInputBindings, type CapturedInput } from './hooks/useInputBindings';
+import { useMediaQuery } from './hooks/useMediaQuery';
+import { CoverFlow } from './components/CoverFlow';
+import { PlayIcon, PauseIcon, NextTrackIcon, PrevTrackIcon, ChevronRightIcon, RepeatIcon, RepeatOneIcon, ShuffleIcon, LockIcon } from './components/icons';
+
+// --- Player Backend ---
+
+// Set PLAYER_BACKEND=fake in .env.local to develop without network access.
+const createSongPlayer = (source: SongSource, elementId: string): PlayerAdapter => {
+  if (process.env.PLAYER_BACKEND === 'fake') return createFakePlayerAdapter({ realTime: true });
+  return source === 'local' ? createAudioPlayerAdapter() : createYouTubePlayerAdapter(elementId);
+};
+
+// Two YouTube players take turns: one plays while the other preloads the next song.
+const YOUTUBE_PLAYER_ELEMENTS = ['youtube-player-a', 'youtube-player-b'];
+
+// How long before a song ends (plus any crossfade) the next one starts preloading.
+const PRELOAD_AHEAD_SECONDS = 10;
+
+// A player holding the next song, loaded and paused, ready to take over when the current one ends.
+interface StandbyPlayer {
+  songKey: string;
+  player: PlayerAdapter;
+  source: SongSource;
+  elementId: string;
+  audioUrl: string | null; // Object URL of the local file it holds
+  isLoaded: boolean; // False until a local file has loaded, and again if the song fails to load
 }
 
+const getSongSource = (song: Song): SongSource => isLocalSong(song) ? 'local' : 'youtube';
+const getLocalSongIds = (songs: Song[]) => new Set(songs.filter(isLocalSong).map(song => song.id));
+
+// Metadata backfills and library edits replace the song object, so players go by what actually plays.
+const getSongKey = (song: Song) => `${song.id}:${song.startSeconds ?? 0}:${song.endSeconds ?? ''}`;
+
+const releasePlayer = (released: { player: PlayerAdapter | null; audioUrl: string | null } | null) => {
+  released?.player?.destroy();
+  if (released?.audioUrl) URL.revokeObjectURL(released.audioUrl);
+};
+
 // --- Web Audio and Vibration Helpers ---
 
 const audioContext = typeof window !== 'undefined' ? new (window.AudioContext || (window as any).webkitAudioContext)() : null;
 
+// How much to scale vibration pulses for each strength.
+const VIBRATION_SCALES: Record<VibrationStrength, number> = { off: 0, light: 0.5, medium: 1, strong: 2 };
+
+// Set from Settings. Kept at module level because the wheel's own components click and buzz too.
+const feedback = { clickVolume: 1, vibrationScale: 1 };
+
+const applyFeedbackSettings = (settings: AppSettings) => {
+  feedback.clickVolume = settings.clickSound ? settings.clickVolume / 100 : 0;
+  feedback.vibrationScale = VIBRATION_SCALES[settings.vibration];
+};
+
 const playScrollSound = () => {
-  if (!audioContext) return;
+  if (!audioContext || feedback.clickVolume === 0) return;
   if (audioContext.state === 'suspended') {
     audioContext.resume();
   }
@@ -27,7 +94,7 @@ const playScrollSound = () => {
   
   oscillator.type = 'sine';
   oscillator.frequency.setValueAtTime(1200, audioContext.currentTime);
-  gainNode.gain.setValueAtTime(0.1, audioContext.currentTime);
+  gainNode.gain.setValueAtTime(0.1 * feedback.clickVolume, audioContext.currentTime);
   
   gainNode.gain.exponentialRampToValueAtTime(0.00001, audioContext.currentTime + 0.05);
   oscillator.start(audioContext.currentTime);
@@ -35,8 +102,10 @@ const playScrollSound = () => {
 };
 
 const triggerVibration = (duration: number | number[] = 50) => {
+  if (feedback.vibrationScale === 0) return;
   if (typeof window !== 'undefined' && window.navigator && window.navigator.vibrate) {
-    window.navigator.vibrate(duration);
+    const scale = (ms: number) => Math.round(ms * feedback.vibrationScale);
+    window.navigator.vibrate(Array.isArray(duration) ? duration.map(scale) : scale(duration));
   }
 };
 
@@ -47,70 +116,225 @@ interface ScreenProps {
   children: React.ReactNode;
   header: string;
 }
+// Dims with the device's backlight and shows the lock while Hold is on, both set as data attributes on the device.
 const Screen: React.FC<ScreenProps> = ({ children, header }) => (
-  <div className="w-full h-1/2 bg-black rounded-t-lg p-1 flex flex-col">
-    <div className="w-full bg-zinc-100/90 dark:bg-zinc-800/90 backdrop-blur-sm border-b border-zinc-300 dark:border-zinc-700 text-black dark:text-white text-center font-bold py-1.5 rounded-t-md">
+  <div className="w-full h-1/2 bg-black rounded-t-lg p-1 flex flex-col transition-[filter] duration-700 group-data-[backlight=dim]:brightness-50 group-data-[backlight=off]:brightness-0">
+    <div className="relative w-full bg-skin-header text-skin-header-text border-b border-skin-divider text-center font-bold py-1.5 rounded-t-md">
+      <LockIcon className="hidden group-data-[hold=on]:block absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4" />
       {header}
     </div>
-    <div className="w-full flex-grow bg-white dark:bg-black overflow-y-auto text-black dark:text-gray-200">
+    <div className="w-full flex-grow bg-skin-screen overflow-y-auto text-skin-screen-text">
       {children}
     </div>
   </div>
 );
 
-interface ClickWheelProps {
-  onMenuClick: () => void;
-  onCenterClick: () => void;
-  onCenterLongPress?: () => void;
-  onNextClick: () => void;
-  onPrevClick: () => void;
-  onPlayPauseClick: () => void;
-  isPlaying: boolean;
-}
-const ClickWheel: React.FC<ClickWheelProps> = ({ onMenuClick, onCenterClick, onCenterLongPress, onNextClick, onPrevClick, onPlayPauseClick, isPlaying }) => {
+// --- Click Wheel Rotation ---
+
+// Degrees of travel around the ring that produce one scroll step at sensitivity 1.
+const WHEEL_TICK_DEGREES = 18;
+// Angular speed (degrees per millisecond) above which fast spins start to accelerate.
+const WHEEL_FAST_SPIN_SPEED = 0.5;
+// Upper bound on how many times smaller a tick can become during a fast spin.
+const WHEEL_MAX_ACCELERATION = 3;
+// Fraction of the wheel radius covered by the center button, where drags are ignored.
+const WHEEL_CENTER_RATIO = 0.45;
+
+const getPointerAngle = (element: HTMLElement, clientX: number, clientY: number) => {
+  const rect = element.getBoundingClientRect();
+  const dx = clientX - (rect.left + rect.width / 2);
+  const dy = clientY - (rect.top + rect.height / 2);
+  return {
+    angle: Math.atan2(dy, dx) * 180 / Math.PI,
+    distance: Math.hypot(dx, dy) / (rect.width / 2),
+  };
+};
+
+/**
+ * Seconds to move for one wheel tick while seeking. Spinning steadily speeds it
+ * up from 1 to 60 seconds per tick, so long songs and DJ sets stay reachable.
+ */
+const getSeekStep = (streak: { lastTick: number; count: number }) => {
+  const now = Date.now();
+  streak.count = now - streak.lastTick < 200 ? streak.count + 1 : 0;
+  streak.lastTick = now;
+  return streak.count > 30 ? 60 : streak.count > 15 ? 10 : streak.count > 5 ? 5 : 1;
+};
+
+// Wheel ticks closer together than this count towards a fast spin.
+const FAST_SCROLL_TICK_MS = 150;
+// After this many quick ticks, alphabetical lists jump a letter at a time.
+const FAST_SCROLL_TICKS = 8;
+
+const isFastScroll = (streak: { lastTick: number; count: number }) => {
+  const now = Date.now();
+  streak.count = now - streak.lastTick < FAST_SCROLL_TICK_MS ? streak.count + 1 : 0;
+  streak.lastTick = now;
+  return streak.count >= FAST_SCROLL_TICKS;
+};
+
+// How long the letter shown during a fast spin stays up after the wheel stops.
+const JUMP_LETTER_DISPLAY_MS = 600;
+
+// Keeps the wheel's selection visible in lists taller than the screen.
+const scrollSelectedIntoView = (element: HTMLElement | null) => element?.scrollIntoView({ block: 'nearest' });
+
+// Keeps the line being sung (or browsed to) in the middle of the lyrics pane.
+const centerLyricLine = (element: HTMLElement | null) => {
+  const pane = element?.parentElement;
+  if (!element || !pane) return;
+  pane.scrollTo({ top: element.offsetTop - (pane.clientHeight - element.offsetHeight) / 2, behavior: 'smooth' });
+};
+
+// After the wheel rests this long, the lyrics go back to following the song.
+const LYRICS_BROWSE_MS = 4000;
+
+// How long the screen stays dimmed before the backlight goes off.
+const BACKLIGHT_DIM_MS = 5000;
+
+// Percentage points of volume per wheel tick.
+const VOLUME_STEP = 5;
+// Scrubbing waits for the wheel to rest this long before asking the player to seek.
+const SCRUB_SEEK_DELAY_MS = 250;
+
+// Wraps an angle difference into (-180, 180] so crossing the 180° seam doesn't jump.
+const normalizeAngleDelta = (delta: number) => {
+  if (delta > 180) return delta - 360;
+  if (delta <= -180) return delta + 360;
+  return delta;
+};
+
+// Press handlers for a wheel button that does something else when held.
+const useLongPress = (onClick: () => void, onLongPress?: () => void, disabled = false) => {
     const longPressTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
     const isLongPress = useRef(false);
 
-    const handleMouseDown = () => {
+    const start = () => {
         isLongPress.current = false;
+        if (disabled) return;
         longPressTimeout.current = setTimeout(() => {
             isLongPress.current = true;
             triggerVibration(100);
-            onCenterLongPress?.();
-        }, 700);
+            onLongPress?.();
+        }, LONG_PRESS_DELAY_MS);
     };
 
-    const handleMouseUp = () => {
+    const cancel = () => {
         if (longPressTimeout.current) {
             clearTimeout(longPressTimeout.current);
         }
     };
-    
+
     const handleClick = (e: React.MouseEvent) => {
         if (isLongPress.current) {
             e.preventDefault();
             return;
         }
-        onCenterClick();
+        onClick();
+    };
+
+    return { onMouseDown: start, onMouseUp: cancel, onMouseLeave: cancel, onTouchStart: start, onTouchEnd: cancel, onClick: handleClick };
+};
+
+interface ClickWheelProps {
+  onMenuClick: () => void;
+  onMenuLongPress?: () => void;
+  onCenterClick: () => void;
+  onCenterLongPress?: () => void;
+  onNextClick: () => void;
+  onPrevClick: () => void;
+  onPlayPauseClick: () => void;
+  isPlaying: boolean;
+  sensitivity?: number; // Scroll steps per WHEEL_TICK_DEGREES of rotation
+  acceleration?: boolean; // Shrink the tick size on fast spins
+  disabled?: boolean; // Hold is on: no spins or long presses
+}
+const ClickWheel: React.FC<ClickWheelProps> = ({ onMenuClick, onMenuLongPress, onCenterClick, onCenterLongPress, onNextClick, onPrevClick, onPlayPauseClick, isPlaying, sensitivity = 1, acceleration = true, disabled = false }) => {
+    const menuPress = useLongPress(onMenuClick, onMenuLongPress, disabled);
+    const centerPress = useLongPress(onCenterClick, onCenterLongPress, disabled);
+    const wheelRef = useRef<HTMLDivElement>(null);
+    const rotation = useRef<{ pointerId: number; lastAngle: number; lastTime: number; accumulated: number; hasRotated: boolean } | null>(null);
+    const suppressClick = useRef(false);
+
+    const handleWheelPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!wheelRef.current || disabled) return;
+        const { angle, distance } = getPointerAngle(wheelRef.current, e.clientX, e.clientY);
+        if (distance < WHEEL_CENTER_RATIO) return;
+        rotation.current = { pointerId: e.pointerId, lastAngle: angle, lastTime: e.timeStamp, accumulated: 0, hasRotated: false };
+    };
+
+    const handleWheelPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const state = rotation.current;
+        if (!state || state.pointerId !== e.pointerId || !wheelRef.current) return;
+
+        const { angle } = getPointerAngle(wheelRef.current, e.clientX, e.clientY);
+        const delta = normalizeAngleDelta(angle - state.lastAngle);
+        const elapsed = Math.max(e.timeStamp - state.lastTime, 1);
+        state.lastAngle = angle;
+        state.lastTime = e.timeStamp;
+        state.accumulated += delta;
+
+        const speed = Math.abs(delta) / elapsed;
+        const speedUp = acceleration && speed > WHEEL_FAST_SPIN_SPEED
+            ? Math.min(speed / WHEEL_FAST_SPIN_SPEED, WHEEL_MAX_ACCELERATION)
+            : 1;
+        const tickDegrees = WHEEL_TICK_DEGREES / (sensitivity * speedUp);
+
+        while (Math.abs(state.accumulated) >= tickDegrees) {
+            if (!state.hasRotated) {
+                // Only capture once the gesture is clearly a spin, so plain taps still reach the buttons.
+                state.hasRotated = true;
+                wheelRef.current.setPointerCapture(e.pointerId);
+            }
+            // Screen coordinates grow downwards, so a positive delta is a clockwise spin.
+            if (state.accumulated > 0) {
+                onNextClick();
+                state.accumulated -= tickDegrees;
+            } else {
+                onPrevClick();
+                state.accumulated += tickDegrees;
+            }
+        }
+    };
+
+    const handleWheelPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+        const state = rotation.current;
+        if (!state || state.pointerId !== e.pointerId) return;
+        if (state.hasRotated) {
+            suppressClick.current = true;
+            setTimeout(() => { suppressClick.current = false; }, 0);
+        }
+        rotation.current = null;
+    };
+
+    const handleWheelClickCapture = (e: React.MouseEvent) => {
+        if (suppressClick.current) {
+            e.stopPropagation();
+            e.preventDefault();
+            suppressClick.current = false;
+        }
     };
 
     return (
-      <div className="w-full h-1/2 bg-zinc-100 dark:bg-zinc-950 rounded-b-lg flex justify-center items-center">
-        <div className="relative w-48 h-48 md:w-56 md:h-56 rounded-full bg-gradient-to-br from-zinc-300 to-zinc-200 dark:from-zinc-800 dark:to-zinc-700 flex justify-center items-center shadow-inner">
-          <button onClick={onMenuClick} className="absolute top-2 text-gray-600 dark:text-gray-300 font-bold uppercase text-sm">Menu</button>
-          <button onClick={onPrevClick} className="absolute left-2 text-gray-600 dark:text-gray-300"><PrevTrackIcon className="w-8 h-8" /></button>
-          <button onClick={onNextClick} className="absolute right-2 text-gray-600 dark:text-gray-300"><NextTrackIcon className="w-8 h-8" /></button>
-          <button onClick={onPlayPauseClick} className="absolute bottom-2 text-gray-600 dark:text-gray-300">
+      <div className="w-full h-1/2 rounded-b-lg flex justify-center items-center">
+        <div
+          ref={wheelRef}
+          onPointerDown={handleWheelPointerDown}
+          onPointerMove={handleWheelPointerMove}
+          onPointerUp={handleWheelPointerUp}
+          onPointerCancel={handleWheelPointerUp}
+          onClickCapture={handleWheelClickCapture}
+          className="relative w-48 h-48 md:w-56 md:h-56 rounded-full bg-skin-wheel bg-gradient-to-br from-white/25 to-black/10 flex justify-center items-center shadow-inner touch-none select-none"
+        >
+          <button {...menuPress} className="absolute top-2 text-skin-wheel-text font-bold uppercase text-sm">Menu</button>
+          <button onClick={onPrevClick} className="absolute left-2 text-skin-wheel-text"><PrevTrackIcon className="w-8 h-8" /></button>
+          <button onClick={onNextClick} className="absolute right-2 text-skin-wheel-text"><NextTrackIcon className="w-8 h-8" /></button>
+          <button onClick={onPlayPauseClick} className="absolute bottom-2 text-skin-wheel-text">
             {isPlaying ? <PauseIcon className="w-8 h-8" /> : <PlayIcon className="w-8 h-8" />}
           </button>
           <button 
-             onMouseDown={handleMouseDown}
-             onMouseUp={handleMouseUp}
-             onMouseLeave={handleMouseUp}
-             onTouchStart={handleMouseDown}
-             onTouchEnd={handleMouseUp}
-             onClick={handleClick}
-             className="w-20 h-20 md:w-24 md:h-24 bg-zinc-400 dark:bg-zinc-600 rounded-full shadow-lg border-2 border-zinc-500 dark:border-zinc-500 transition-transform active:scale-95"
+             {...centerPress}
+             className="w-20 h-20 md:w-24 md:h-24 bg-skin-center-button rounded-full shadow-lg border-2 border-black/20 transition-transform active:scale-95"
           ></button>
         </div>
       </div>
@@ -119,82 +343,356 @@ const ClickWheel: React.FC<ClickWheelProps> = ({ onMenuClick, onCenterClick, onC
 
 // --- Main App Component ---
 
-const getInitialPlaylists = (): Playlist[] => {
-  try {
-    const savedPlaylists = localStorage.getItem('playlists');
-    return savedPlaylists ? JSON.parse(savedPlaylists) : [];
-  } catch (error) {
-    console.error("Failed to parse playlists from localStorage", error);
-    return [];
-  }
-};
-const initialPlaylists = getInitialPlaylists();
+// Opened once at startup, like the library load it replaces, so StrictMode's double effects don't reopen it.
+const libraryStorePromise = openLibraryStore();
+
+const loadSongArtwork = (songId: string) =>
+  libraryStorePromise.then(store => store.loadAudioFile(songId)).then(file => file?.artwork);
+
+// Cover Flow needs a landscape screen with room for the device to widen, like an iPod turned on its side.
+const COVER_FLOW_MEDIA_QUERY = '(orientation: landscape) and (min-width: 640px)';
+// Music screens that switch to Cover Flow when the device is rotated.
+const COVER_FLOW_VIEWS: View[] = ['music', 'music-songs', 'music-artists', 'music-albums'];
 
 
 const App: React.FC = () => {
-  const [playlists, setPlaylists] = useState<Playlist[]>(initialPlaylists);
-  const [view, setView] = useState<View>(initialPlaylists.length > 0 && initialPlaylists.some(p => p.songs.length > 0) ? 'main-menu' : 'add-song');
-  const [activePlaylistId, setActivePlaylistId] = useState<string | null>(null);
-  const [nowPlaying, setNowPlaying] = useState<{ playlistId: string; songIndex: number } | null>(null);
-  const [playbackMode, setPlaybackMode] = useState<PlaybackMode>('video');
-  const [repeatMode, setRepeatMode] = useState<RepeatMode>('off');
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [isLibraryLoaded, setIsLibraryLoaded] = useState(false);
+  const [navigation, setNavigation] = useState<NavigationStack>(createNavigationStack);
+  const [playQueue, setPlayQueue] = useState<PlayQueue | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [playbackMode, setPlaybackMode] = useState<PlaybackMode>(settings.defaultPlaybackMode);
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>(settings.defaultRepeatMode);
+  const [shuffleMode, setShuffleMode] = useState<ShuffleMode>('off');
+  const [upNext, setUpNext] = useState<UpNextItem[]>(loadUpNext);
+  const [playingUpNext, setPlayingUpNext] = useState<UpNextItem | null>(null);
+  const [isMovingUpNextItem, setIsMovingUpNextItem] = useState(false);
+  const [history, setHistory] = useState<LibraryHistory>(EMPTY_HISTORY);
+  const [resumableSession, setResumableSession] = useState<PlaybackSession | null>(null);
+  const [listeningStats, setListeningStats] = useState<ListeningStats>(loadListeningStats);
+  const [listeningTracker] = useState(() => createListeningTracker(listeningStats, setListeningStats));
+  // Generated and smart playlists change as songs get played, so a queue started from one keeps the list as it was.
+  const [snapshotQueuePlaylist, setSnapshotQueuePlaylist] = useState<Playlist | null>(null);
+  const [onTheGo, setOnTheGo] = useState<Song[]>(loadOnTheGo);
+  const [isSavingOnTheGo, setIsSavingOnTheGo] = useState(false);
+  const [nowPlayingWheelMode, setNowPlayingWheelMode] = useState<NowPlayingWheelMode>('track');
+  const [progress, setProgress] = useState({ time: 0, duration: 0 }); // Polled from the player, in song time
+  const [lyrics, setLyrics] = useState<Record<string, string>>(loadLyrics);
+  const [lyricsDraft, setLyricsDraft] = useState('');
+  const [lyricsCursor, setLyricsCursor] = useState<number | null>(null); // Line picked with the wheel in Lyrics mode
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+  const [volume, setVolume] = useState(100);
+  const [toast, setToast] = useState<{ message: string; undoable: boolean } | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [backlight, setBacklight] = useState<'on' | 'dim' | 'off'>('on');
+  const [isHoldOn, setIsHoldOn] = useState(false);
+  const [localArtworkUrl, setLocalArtworkUrl] = useState<string | null>(null);
   
-  const [selectedIndex, setSelectedIndex] = useState(0);
   const [urlInput, setUrlInput] = useState('');
-  const [tempSong, setTempSong] = useState<Song | null>(null);
+  const [pendingSongs, setPendingSongs] = useState<Song[]>([]);
+  const [songListEntries, setSongListEntries] = useState<SongListEntry[]>([]);
   const [newPlaylistName, setNewPlaylistName] = useState('');
   const [draggedItemIndex, setDraggedItemIndex] = useState<number | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
-  const [selectedSongIndex, setSelectedSongIndex] = useState<number | null>(null);
-  const [playlistToDeleteId, setPlaylistToDeleteId] = useState<string | null>(null);
   const [playlistSearchQuery, setPlaylistSearchQuery] = useState('');
+  const [musicSearchQuery, setMusicSearchQuery] = useState('');
+  const [jumpLetter, setJumpLetter] = useState<string | null>(null); // Shown while spinning fast through an A–Z list
+  const [coverFlowTrackIndex, setCoverFlowTrackIndex] = useState<number | null>(null); // Set while a cover is flipped over
+  const [inputBindings, setInputBindings] = useState<InputBindings>(loadInputBindings);
+  const [rebindingAction, setRebindingAction] = useState<WheelAction | null>(null);
+  const [pendingImport, setPendingImport] = useState<LibraryExport | null>(null);
+  const [importReport, setImportReport] = useState<LibraryMergeReport | null>(null);
+  const [editingClipPoint, setEditingClipPoint] = useState<'start' | 'end' | null>(null);
+  const [clipEditValue, setClipEditValue] = useState(0);
+  const [smartDraft, setSmartDraft] = useState<{ playlistId: string | null; name: string; rules: SmartPlaylistRules } | null>(null);
+  const [adjustingSmartValue, setAdjustingSmartValue] = useState<SmartRuleNumberKey | 'limit' | null>(null);
+
+  const [theme, setTheme] = useState<Theme>(DEFAULT_SKIN_ID);
+  const [customSkins, setCustomSkins] = useState<Skin[]>(loadCustomSkins);
+  const [visibleYouTubeElement, setVisibleYouTubeElement] = useState(YOUTUBE_PLAYER_ELEMENTS[0]);
+
+  const player = useRef<PlayerAdapter | null>(null);
+  const playerSource = useRef<SongSource>('youtube'); // Which backend `player` was created for
+  const localAudioUrl = useRef<string | null>(null); // Object URL of the local file being played
+  const playerElement = useRef(YOUTUBE_PLAYER_ELEMENTS[0]); // Where `player` puts its iframe when it plays YouTube
+  const standbyPlayer = useRef<StandbyPlayer | null>(null);
+  const crossfade = useRef<Crossfade | null>(null); // Set while the previous song fades out under the current one
+  const crossfadeRequested = useRef(false); // Set when moving to the next song early, to fade into it
+  const importFileInput = useRef<HTMLInputElement>(null);
+  const skinFileInput = useRef<HTMLInputElement>(null);
+  const songListFileInput = useRef<HTMLInputElement>(null);
+  const audioFileInput = useRef<HTMLInputElement>(null);
+  // Files picked for local songs, kept until the songs are added to a playlist.
+  const pendingAudioFiles = useRef(new Map<string, LocalAudioFile>());
+  const keptAudioFileIds = useRef<Set<string> | null>(null); // Local songs whose files were in use at the last check
+  const smartTextInput = useRef<HTMLInputElement>(null);
+  const lyricsFileInput = useRef<HTMLInputElement>(null);
+  const lyricsBrowseTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const metadataRequested = useRef(new Set<string>());
+  const loadedSongKey = useRef<string | null>(null);
+  const clipEndHandled = useRef(false);
+  const seekWheelStreak = useRef({ lastTick: 0, count: 0 });
+  const listScrollStreak = useRef({ lastTick: 0, count: 0 });
+  const jumpLetterTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const scrubSeekTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const volumeRef = useRef(volume);
+  volumeRef.current = volume;
+  const dragOriginIndex = useRef<number | null>(null);
+  const toastTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const backlightTimers = useRef<ReturnType<typeof setTimeout>[]>([]);
+  // Set when a press turned the backlight back on, so the rest of that press (its click, or a spin) does nothing.
+  // Cleared once the press ends, whether or not it made a click.
+  const wakingPress = useRef(false);
+  const pendingResumeSeconds = useRef<number | null>(null);
+  // Last position sampled from the player, kept because the player is torn down when leaving Now Playing.
+  const lastElapsed = useRef<{ songId: string | null; seconds: number }>({ songId: null, seconds: 0 });
+
+  // The screen on top of the navigation stack, and what it was opened on.
+  const screen = getTopScreen(navigation);
+  const { view, selectedIndex } = screen;
+  const activePlaylistId = screen.params.playlistId ?? null;
+  const selectedSongIndex = screen.params.songIndex ?? null;
+  const upNextItemIndex = screen.params.upNextIndex ?? null;
+  const editingRuleIndex = screen.params.ruleIndex ?? null;
+
+  const setSelectedIndex = useCallback((index: number | ((prev: number) => number)) => {
+    setNavigation(prev => setScreenSelection(prev, index));
+  }, []);
+  const openScreen = (view: View, params: ScreenParams = {}) => setNavigation(prev => pushScreen(prev, view, params));
+  const goBack = (selectedIndex?: number) => setNavigation(prev => popScreen(prev, selectedIndex));
+  
+  useEffect(() => {
+    let cancelled = false;
+    libraryStorePromise
+      .then(store => store.load())
+      .then(({ playlists: savedPlaylists, theme: savedTheme, quarantinedCount }) => {
+        if (cancelled) return;
+        setPlaylists(savedPlaylists);
+        if (savedTheme) setTheme(savedTheme);
+        const session = validatePlaybackSession(loadPlaybackSession(), [
+          ...resolveSmartPlaylists(savedPlaylists, listeningStats),
+          ...buildAutoPlaylists(savedPlaylists, listeningStats),
+          createOnTheGoPlaylist(onTheGo),
+          ...getMusicPlaylists(buildMusicLibrary(savedPlaylists)),
+        ]);
+        if (session) {
+          setPlaybackMode(session.playbackMode);
+          setRepeatMode(session.repeatMode);
+          setShuffleMode(session.shuffleMode);
+          if (hasResumableSong(session)) setResumableSession(session);
+        }
+        if (!savedPlaylists.some(p => p.songs.length > 0)) setNavigation(prev => pushScreen(prev, 'add-song'));
+        setIsLibraryLoaded(true);
+        // Undo history doesn't survive a reload, so files only the last session's history was keeping go now.
+        const usedIds = getLocalSongIds([...savedPlaylists.flatMap(p => p.songs), ...onTheGo, ...upNext.map(item => item.song)]);
+        libraryStorePromise
+          .then(async store => {
+            const unused = (await store.listAudioFileIds()).filter(id => !usedIds.has(id));
+            if (unused.length > 0) await store.deleteAudioFiles(unused);
+          })
+          .catch(error => console.error("Failed to delete unused audio files", error));
+        if (quarantinedCount > 0) {
+          alert(`${quarantinedCount} damaged playlist record(s) could not be loaded and were set aside.`);
+        }
+      })
+      .catch(error => {
+        console.error("Failed to load the library", error);
+        if (!cancelled) setIsLibraryLoaded(true);
+      });
+    return () => { cancelled = true; };
+  }, []);
 
-  const [theme, setTheme] = useState<'light' | 'dark'>(() => {
-    const savedTheme = localStorage.getItem('theme');
-    return (savedTheme === 'dark' || savedTheme === 'light') ? savedTheme : 'light';
-  });
+  useEffect(() => {
+    if (!isLibraryLoaded) return;
+    libraryStorePromise.then(store => store.savePlaylists(playlists));
+  }, [playlists, isLibraryLoaded]);
 
-  const ytPlayer = useRef<any>(null);
-  const isPlayerReady = useRef(false);
-  
   useEffect(() => {
-    localStorage.setItem('playlists', JSON.stringify(playlists));
-  }, [playlists]);
+    if (!isLibraryLoaded) return;
+    libraryStorePromise.then(store => store.saveTheme(theme));
+  }, [theme, isLibraryLoaded]);
 
+  // Don't lose the last edits to the save debounce when the app is closed or backgrounded.
   useEffect(() => {
-    localStorage.setItem('theme', theme);
-  }, [theme]);
-  
+    const flush = () => { libraryStorePromise.then(store => store.flush()); };
+    const handleVisibilityChange = () => { if (document.visibilityState === 'hidden') flush(); };
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
+
+  // A local song's file is kept while anything could still play or restore it, undo history included.
+  const usedAudioFileIds = useMemo(
+    () => getLocalSongIds([...playlists.flatMap(p => p.songs), ...onTheGo, ...upNext.map(item => item.song), ...getHistorySongs(history)]),
+    [playlists, onTheGo, upNext, history]
+  );
+
+  // Deletes a file once nothing uses it any more, e.g. when the undo step that could restore its song is dropped.
   useEffect(() => {
-    if (view === 'playlists') {
-      setSelectedIndex(0);
-    }
-  }, [playlistSearchQuery, view]);
+    if (!isLibraryLoaded) return;
+    const previous = keptAudioFileIds.current;
+    keptAudioFileIds.current = usedAudioFileIds;
+    const unused = previous ? [...previous].filter(id => !usedAudioFileIds.has(id)) : [];
+    if (unused.length === 0) return;
+    libraryStorePromise
+      .then(store => store.deleteAudioFiles(unused))
+      .catch(error => console.error("Failed to delete unused audio files", error));
+  }, [usedAudioFileIds, isLibraryLoaded]);
+
+  useEffect(() => {
+    saveInputBindings(inputBindings);
+  }, [inputBindings]);
+
+  useEffect(() => {
+    saveUpNext(upNext);
+  }, [upNext]);
+
+  useEffect(() => {
+    saveOnTheGo(onTheGo);
+  }, [onTheGo]);
+
+  useEffect(() => {
+    saveLyrics(lyrics);
+  }, [lyrics]);
+
+  useEffect(() => {
+    saveCustomSkins(customSkins);
+  }, [customSkins]);
 
-  const menuItems = ['Playlists', 'Add YouTube URL', 'Now Playing'];
-  const nowPlayingMenuItems = ['prev', 'play-pause', 'next', 'playback-mode', 'repeat-mode'];
+  useEffect(() => {
+    saveSettings(settings);
+    applyFeedbackSettings(settings);
+    document.documentElement.lang = settings.language;
+  }, [settings]);
+
+  // The wheel goes back to track control whenever Now Playing is left.
+  useEffect(() => {
+    if (view !== 'now-playing') setNowPlayingWheelMode('track');
+  }, [view]);
+
+  // Backfill titles and channels for new and older songs without blocking anything.
+  useEffect(() => {
+    const videoIds = new Set<string>();
+    playlists.forEach(p => p.songs.forEach(song => {
+      if (needsMetadata(song) && !metadataRequested.current.has(song.id)) videoIds.add(song.id);
+    }));
+    videoIds.forEach(videoId => {
+      metadataRequested.current.add(videoId);
+      metadataResolver.resolve(videoId).then(metadata => {
+        if (metadata) setPlaylists(prev => applySongMetadata(prev, videoId, metadata));
+      });
+    });
+  }, [playlists]);
+  
+  const lastUndo = history.undo[history.undo.length - 1];
+  const lastRedo = history.redo[history.redo.length - 1];
+  const menuItems = [
+    ...(resumableSession ? ['Resume'] : []),
+    'Playlists', 'Music', 'Add Songs', 'Now Playing', 'Up Next', 'Library', 'Controls', 'Settings',
+    ...(lastUndo ? [`Undo ${lastUndo.label}`] : []),
+    ...(lastRedo ? [`Redo ${lastRedo.label}`] : []),
+  ];
+  const libraryMenuItems = ['Export Library', 'Import Library'];
+  const settingsItems = ['SKIN', ...SETTING_KEYS, 'RESET_SETTINGS'] as const;
+  const settingChoiceKey = screen.params.settingKey;
+  const settingOptions = settingChoiceKey ? getSettingOptions(settingChoiceKey) : [];
+  const t = (text: string) => translate(settings.language, text);
+  const skins = [...BUILT_IN_SKINS, ...customSkins];
+  const skinItems = [...skins.map(skin => skin.id), 'IMPORT_SKIN'];
+  const selectedSkin = findSkin(skins, theme);
+  // Browsing the skin list previews the highlighted skin on the whole device until one is picked.
+  const shownSkin = view === 'skins' ? skins[selectedIndex] ?? selectedSkin : selectedSkin;
+  const importOptions = ['Merge Into Library', 'Replace Library', 'Cancel'];
+  const validSongListEntries = songListEntries.filter(e => e.status === 'valid');
+  // Smart playlists are re-evaluated whenever the library or listening history changes.
+  const libraryPlaylists = useMemo(() => resolveSmartPlaylists(playlists, listeningStats), [playlists, listeningStats]);
+  const builtInPlaylists = useMemo(
+    () => [...buildAutoPlaylists(playlists, listeningStats), createTopRatedPlaylist(playlists), createOnTheGoPlaylist(onTheGo)],
+    [playlists, listeningStats, onTheGo]
+  );
+  const musicLibrary = useMemo(() => buildMusicLibrary(playlists), [playlists]);
+  const isCoverFlowAvailable = useMediaQuery(COVER_FLOW_MEDIA_QUERY);
+  const musicMenuItems = ['Songs', 'Artists', 'Albums', 'Search', ...(isCoverFlowAvailable ? ['Cover Flow'] : [])];
+  const musicSearchResults = useMemo(
+    () => searchMusic(musicLibrary, [...builtInPlaylists, ...libraryPlaylists], musicSearchQuery),
+    [musicLibrary, builtInPlaylists, libraryPlaylists, musicSearchQuery]
+  );
+  const musicSearchResultItems = [
+    ...musicSearchResults.playlists.map(p => ({ id: p.id, isPlaylist: true, title: p.name, detail: 'Playlist' })),
+    ...musicSearchResults.songs.songs.map(song => {
+      const { title, artist } = getSongCredits(song);
+      return { id: song.id, isPlaylist: false, title, detail: artist };
+    }),
+  ];
+  const musicCollection = screen.params.collectionId === MUSIC_SEARCH_ID
+    ? musicSearchResults.songs
+    : screen.params.collectionId ? findMusicCollection(musicLibrary, screen.params.collectionId) : undefined;
+  // First letters of the alphabetical list on screen, for jumping through it.
+  const indexLetters = useMemo(() => {
+    if (view === 'music-songs') return musicCollection?.songs.map(song => getIndexLetter(getSongCredits(song).title)) ?? [];
+    if (view === 'music-artists') return musicLibrary.artists.map(artist => getIndexLetter(artist.name));
+    if (view === 'music-albums') return musicLibrary.albums.map(album => getIndexLetter(album.name));
+    if (view === 'cover-flow') return musicLibrary.coverFlowAlbums.map(album => getIndexLetter(album.name));
+    return [];
+  }, [view, musicCollection, musicLibrary]);
+  const activePlaylist = libraryPlaylists.find(p => p.id === activePlaylistId) ?? builtInPlaylists.find(p => p.id === activePlaylistId);
+  // Songs in generated and smart playlists belong to other playlists, so they can't be edited from here.
+  const hasFixedSongs = !!activePlaylist && !activePlaylist.readOnly && !activePlaylist.smart;
+  const songMenuItems = hasFixedSongs ? ['Play', 'Play Next', 'Add to Up Next', 'Lyrics', 'Clip Points'] : ['Play', 'Play Next', 'Add to Up Next', 'Lyrics'];
+  const upNextMenuItems = upNext.length > 0 ? [...upNext.map(item => item.key), 'CLEAR_UP_NEXT'] : [];
+  const upNextItemMenuItems = ['Play Now', 'Move', 'Remove'];
+  const clipEditorItems = ['start', 'end', 'clear'] as const;
+  const bulkAddReviewItems = validSongListEntries.length > 0 ? [`Add ${validSongListEntries.length} Songs`, 'Edit List'] : ['Edit List'];
+  const nowPlayingMenuItems = ['progress', 'prev', 'play-pause', 'next', 'playback-mode', 'repeat-mode', 'shuffle-mode', 'rating', 'lyrics'];
   
   const playlistItems = playlistSearchQuery
-    ? playlists.filter(p => p.name.toLowerCase().includes(playlistSearchQuery.toLowerCase()))
-    : playlists;
-  const playlistMenuItems = [...playlistItems, {id: 'CREATE_NEW', name: '+ Create New Playlist', songs:[]}];
-
-  const activePlaylist = playlists.find(p => p.id === activePlaylistId);
-  const currentSong = nowPlaying ? playlists.find(p => p.id === nowPlaying.playlistId)?.songs[nowPlaying.songIndex] : null;
+    ? [...builtInPlaylists, ...libraryPlaylists].filter(p => p.name.toLowerCase().includes(playlistSearchQuery.toLowerCase()))
+    : [...builtInPlaylists, ...libraryPlaylists];
+  const playlistMenuItems: Playlist[] = [
+    ...playlistItems,
+    {id: 'CREATE_NEW', name: '+ Create New Playlist', songs:[]},
+    {id: 'CREATE_SMART', name: '+ Create Smart Playlist', songs:[]},
+  ];
+  const addToPlaylistItems = [...playlists.filter(p => !p.smart), {id: 'new', name: 'Create New Playlist', songs:[]}];
+  const smartEditorItems = smartDraft ? ['name', 'match', ...smartDraft.rules.rules.map((_, i) => `rule-${i}`), 'add-rule', 'limit', 'sort', 'save'] : [];
+  const editingRule = smartDraft && editingRuleIndex !== null ? smartDraft.rules.rules[editingRuleIndex] : undefined;
+  const smartRuleEditorItems = editingRule ? ['field', ...getSmartRuleValueKeys(editingRule), 'remove'] : [];
+
+  // The stored queue can lag behind playlist edits; this is the queue reconciled with the playlist as it is now.
+  const queuePlaylist = !playQueue ? undefined
+    : snapshotQueuePlaylist?.id === playQueue.playlistId ? snapshotQueuePlaylist
+    : playlists.find(p => p.id === playQueue.playlistId);
+  const activeQueue = useMemo(
+    () => playQueue && queuePlaylist ? syncPlayQueue(playQueue, queuePlaylist) : null,
+    [playQueue, queuePlaylist]
+  );
+  // While an Up Next entry plays, the queue stays on the song it interrupted and resumes after it.
+  const currentSong = playingUpNext
+    ? resolveUpNextSong(playingUpNext, playlists)
+    : activeQueue ? queuePlaylist?.songs.find(s => s.id === getCurrentSongId(activeQueue)) : null;
 
   const getPlaylistViewItems = () => {
     if (!activePlaylist) return [];
     const items: {id: string; title: string;}[] = [];
     if (activePlaylist.songs.length > 0) {
-      items.push({ id: 'SHUFFLE_PLAYLIST', title: 'Shuffle Playlist' });
+      items.push({ id: 'SHUFFLE_PLAYLIST', title: 'Shuffle Songs' });
       items.push(...activePlaylist.songs);
     }
-    items.push({ id: 'DELETE_PLAYLIST', title: 'Delete This Playlist' });
+    if (activePlaylist.smart) items.push({ id: 'EDIT_RULES', title: 'Edit Rules' });
+    if (activePlaylist.id === ON_THE_GO_ID && activePlaylist.songs.length > 0) {
+      items.push({ id: 'SAVE_ON_THE_GO', title: 'Save as Playlist' });
+      items.push({ id: 'CLEAR_ON_THE_GO', title: 'Clear On-The-Go' });
+    }
+    if (!activePlaylist.readOnly) items.push({ id: 'DELETE_PLAYLIST', title: 'Delete This Playlist' });
     return items;
   };
   const playlistViewItems = getPlaylistViewItems();
 
+  const controlsItems = [...WHEEL_ACTIONS, 'RESET_BINDINGS'] as const;
+
   const navigate = useCallback(<T,>(items: T[], direction: 'next' | 'prev') => {
     setSelectedIndex(prev => {
       if (direction === 'next') return (prev + 1) % items.length;
@@ -202,116 +700,404 @@ const App: React.FC = () => {
     });
   }, []);
 
-  const handleNextTrack = useCallback(() => {
-    if (!nowPlaying) return;
-    triggerVibration();
-    const playlist = playlists.find(p => p.id === nowPlaying.playlistId);
-    if (!playlist) return;
+  // Spinning fast through an alphabetical list jumps a letter at a time, showing which one.
+  const navigateAlphabetical = (direction: 'next' | 'prev') => {
+    if (indexLetters.length === 0) return;
+    if (!isFastScroll(listScrollStreak.current)) {
+      navigate(indexLetters, direction);
+      return;
+    }
+    const target = getLetterJumpIndex(indexLetters, selectedIndex, direction === 'next' ? 1 : -1);
+    setSelectedIndex(target);
+    setJumpLetter(indexLetters[target]);
+    if (jumpLetterTimeout.current) clearTimeout(jumpLetterTimeout.current);
+    jumpLetterTimeout.current = setTimeout(() => setJumpLetter(null), JUMP_LETTER_DISPLAY_MS);
+  };
+
+  const playbackContext: PlaybackContext = { queue: activeQueue, upNext, playingUpNext, repeatMode, currentSong: currentSong ?? null };
 
-    const nextIndex = nowPlaying.songIndex + 1;
-    if (nextIndex < playlist.songs.length) {
-        setNowPlaying({ ...nowPlaying, songIndex: nextIndex });
-    } else if (repeatMode === 'all') {
-        setNowPlaying({ ...nowPlaying, songIndex: 0 });
+  const applyTransition = (transition: PlaybackTransition) => {
+    if (transition.type === 'up-next') {
+      setUpNext(transition.upNext);
+      setPlayingUpNext(transition.item);
+    } else if (transition.type === 'queue' && activeQueue) {
+      setPlayingUpNext(null);
+      setPlayQueue({ ...activeQueue, position: transition.position });
     }
-  }, [nowPlaying, playlists, repeatMode]);
+  };
 
-  const handlePrevTrack = useCallback(() => {
-    if (!nowPlaying) return;
+  const handleNextTrack = () => {
+    if (!currentSong) return;
     triggerVibration();
-    
-    const playerTime = ytPlayer.current?.getCurrentTime ? ytPlayer.current.getCurrentTime() : 0;
+    applyTransition(skipToNext(playbackContext, player.current));
+  };
 
-    if (playerTime > 3) {
-      ytPlayer.current?.seekTo(0);
-    } else if (nowPlaying.songIndex > 0) {
-      setNowPlaying({ ...nowPlaying, songIndex: nowPlaying.songIndex - 1 });
-    } else {
-      const playlist = playlists.find(p => p.id === nowPlaying.playlistId);
-      if (repeatMode === 'all' && playlist && playlist.songs.length > 0) {
-        setNowPlaying({ ...nowPlaying, songIndex: playlist.songs.length - 1});
-      } else {
-        ytPlayer.current?.seekTo(0);
+  const handlePrevTrack = () => {
+    if (!currentSong) return;
+    triggerVibration();
+    applyTransition(skipToPrevious(playbackContext, player.current));
+  };
+
+  // What plays once the current song ends, so it can be preloaded.
+  const upcomingTransition = peekFinishSong(playbackContext);
+  const upcomingSong = upcomingTransition.type === 'up-next' ? resolveUpNextSong(upcomingTransition.item, playlists)
+    : upcomingTransition.type === 'queue' ? queuePlaylist?.songs.find(s => s.id === activeQueue?.songIds[upcomingTransition.position])
+    : undefined;
+
+  const handleSongEnd = () => {
+    const transition = finishSong(playbackContext, player.current);
+    if (transition.type === 'end-of-queue') setIsPlaying(false); // Stop at the end
+    else applyTransition(transition);
+  };
+
+  // Action menus only lead somewhere, so Now Playing takes their place and Menu returns to the list they were opened from.
+  const showNowPlaying = () => {
+    setNavigation(prev => {
+      const { view } = getTopScreen(prev);
+      return view === 'song-menu' || view === 'up-next-item-menu' ? replaceScreen(prev, 'now-playing') : pushScreen(prev, 'now-playing');
+    });
+  };
+
+  const startPlayback = (playlist: Playlist, startSongId: string | null, shuffled = shuffleMode === 'songs') => {
+    const queue = createPlayQueue(playlist, startSongId, shuffled);
+    if (!queue) return;
+    setResumableSession(null);
+    setPlayingUpNext(null);
+    setSnapshotQueuePlaylist(playlist.readOnly || playlist.smart ? playlist : null);
+    setPlayQueue(queue);
+    showNowPlaying();
+  };
+
+  const handleResume = () => {
+    if (!resumableSession) return;
+    // Picked up by the player setup once the song loads.
+    pendingResumeSeconds.current = resumableSession.elapsedSeconds;
+    const queueSource = resumableSession.queue?.playlistId;
+    setSnapshotQueuePlaylist([...builtInPlaylists, ...libraryPlaylists, ...getMusicPlaylists(musicLibrary)].find(p => p.id === queueSource && (p.readOnly || p.smart)) ?? null);
+    setPlayQueue(resumableSession.queue);
+    setPlayingUpNext(resumableSession.playingUpNext);
+    setResumableSession(null);
+    showNowPlaying();
+  };
+
+  const handleQueueSong = (song: Song, playlistId: string, placement: 'next' | 'last') => {
+    triggerVibration(100);
+    const item = createUpNextItem(song, playlistId);
+    if (!currentSong) {
+      // Nothing is playing, so there is nothing to queue behind.
+      setResumableSession(null);
+      setPlayingUpNext(item);
+      showNowPlaying();
+      return;
+    }
+    setUpNext(prev => placement === 'next' ? [item, ...prev] : [...prev, item]);
+  };
+
+  // A player is created with its listeners once, so they reach the latest handlers through refs.
+  const handleSongEndRef = useRef(handleSongEnd);
+  handleSongEndRef.current = handleSongEnd;
+  const currentSongRef = useRef(currentSong);
+  currentSongRef.current = currentSong;
+
+  const handlePlayerState = (state: PlayerState) => {
+    if (state === 'ended') {
+      listeningTracker.ended();
+      handleSongEndRef.current();
+    }
+    if (state === 'playing') {
+      const song = currentSongRef.current;
+      if (song) {
+        const clipLength = (song.endSeconds ?? song.duration ?? 0) - (song.startSeconds ?? 0);
+        listeningTracker.playing(song.id, clipLength > 0 ? clipLength : undefined);
       }
+      setIsPlaying(true);
     }
-  }, [nowPlaying, playlists, repeatMode]);
-  
-  const handleSongEnd = useCallback(() => {
-    if (!nowPlaying) return;
-    const playlist = playlists.find(p => p.id === nowPlaying.playlistId);
-    if (!playlist || playlist.songs.length === 0) {
-        setIsPlaying(false);
-        return;
+    if (state === 'paused' || state === 'buffering') {
+      listeningTracker.paused();
     }
-
-    if (repeatMode === 'one') {
-        ytPlayer.current?.seekTo(0);
-        ytPlayer.current?.playVideo();
-        return;
+    if (state === 'paused') {
+      setIsPlaying(false);
     }
+  };
+  const handlePlayerStateRef = useRef(handlePlayerState);
+  handlePlayerStateRef.current = handlePlayerState;
+
+  // A song that can't play is skipped, so one broken video doesn't stall the queue.
+  const handlePlayerError = (error: PlayerError) => {
+    showToast(error.message);
+    const transition = skipToNext(playbackContext, player.current);
+    if (transition.type === 'end-of-queue') setIsPlaying(false);
+    else applyTransition(transition);
+  };
+  const handlePlayerErrorRef = useRef(handlePlayerError);
+  handlePlayerErrorRef.current = handlePlayerError;
 
-    const nextIndex = nowPlaying.songIndex + 1;
-
-    if (repeatMode === 'all') {
-        setNowPlaying({ ...nowPlaying, songIndex: nextIndex % playlist.songs.length });
-        return;
+  // oEmbed has no durations, so take them from the player once a song is playing.
+  useEffect(() => {
+    if (!isPlaying || !currentSong || currentSong.duration !== undefined) return;
+    const duration = Math.round(player.current?.getDuration() ?? 0);
+    if (duration > 0) {
+      if (!isLocalSong(currentSong)) metadataResolver.record(currentSong.id, { duration });
+      setPlaylists(prev => applySongMetadata(prev, currentSong.id, { duration }));
     }
+  }, [isPlaying, currentSong]);
+
+  // Only the player of the current song reports to the app; one preloading or fading out stays quiet.
+  const createListenedPlayer = (source: SongSource, elementId: string) => {
+    const songPlayer = createSongPlayer(source, elementId);
+    songPlayer.setVolume(volumeRef.current);
+    songPlayer.onStateChange(state => { if (player.current === songPlayer) handlePlayerStateRef.current(state); });
+    songPlayer.onError(error => { if (player.current === songPlayer) handlePlayerErrorRef.current(error); });
+    return songPlayer;
+  };
 
-    // Default 'off' behavior
-    if (nextIndex < playlist.songs.length) {
-        setNowPlaying({ ...nowPlaying, songIndex: nextIndex });
+  // Hands playback to the preloaded player, fading over from the old one when a crossfade asked for it.
+  const promoteStandbyPlayer = (standby: StandbyPlayer) => {
+    const outgoing = { player: player.current, audioUrl: localAudioUrl.current };
+    crossfade.current?.finish();
+    player.current = standby.player;
+    playerSource.current = standby.source;
+    localAudioUrl.current = standby.audioUrl;
+    playerElement.current = standby.elementId;
+    setVisibleYouTubeElement(standby.elementId);
+    if (outgoing.player && crossfadeRequested.current && settings.crossfadeSeconds > 0) {
+      standby.player.setVolume(0);
+      const fade = startCrossfade(outgoing.player, standby.player, settings.crossfadeSeconds, () => volumeRef.current, () => {
+        if (crossfade.current === fade) crossfade.current = null;
+        releasePlayer(outgoing);
+      });
+      crossfade.current = fade;
     } else {
-        setIsPlaying(false); // Stop at the end
+      releasePlayer(outgoing);
+      standby.player.setVolume(volumeRef.current);
     }
-  }, [nowPlaying, playlists, repeatMode]);
+    crossfadeRequested.current = false;
+    standby.player.play();
+  };
 
   useEffect(() => {
-    const setupPlayer = () => {
-      if (!currentSong || !document.getElementById('youtube-player')) return;
-      
-      const onPlayerStateChange = (event: any) => {
-        if (event.data === window.YT.PlayerState.ENDED) {
-          handleSongEnd();
-        }
-        if (event.data === window.YT.PlayerState.PLAYING) {
-          setIsPlaying(true);
-        }
-        if (event.data === window.YT.PlayerState.PAUSED) {
-          setIsPlaying(false);
+    if (view !== 'now-playing' || !currentSong) return;
+    const source = getSongSource(currentSong);
+    if (source === 'youtube' && !document.getElementById(playerElement.current)) return;
+
+    const songKey = getSongKey(currentSong);
+    if (loadedSongKey.current === songKey) return;
+    loadedSongKey.current = songKey;
+    clipEndHandled.current = false;
+
+    const standby = standbyPlayer.current;
+    standbyPlayer.current = null;
+    if (standby?.songKey === songKey && standby.isLoaded) {
+      promoteStandbyPlayer(standby);
+      return;
+    }
+    // Anything else, like skipping in the middle of a fade, cuts straight to the new song.
+    releasePlayer(standby);
+    crossfadeRequested.current = false;
+    crossfade.current?.finish();
+
+    const startAt = pendingResumeSeconds.current ?? currentSong.startSeconds ?? 0;
+    pendingResumeSeconds.current = null;
+
+    // YouTube and local songs play through different backends, so switching between them swaps the player.
+    if (player.current && playerSource.current !== source) {
+      player.current.destroy();
+      player.current = null;
+    }
+    if (!player.current) {
+      player.current = createListenedPlayer(source, playerElement.current);
+      playerSource.current = source;
+    }
+    if (source === 'youtube') {
+      player.current.load(currentSong.id, startAt);
+      return;
+    }
+
+    const songPlayer = player.current;
+    libraryStorePromise
+      .then(store => store.loadAudioFile(currentSong.id))
+      .catch(() => null)
+      .then(file => {
+        // Another song may have been picked while the file was loading.
+        if (loadedSongKey.current !== songKey || player.current !== songPlayer) return;
+        if (!file) {
+          handlePlayerErrorRef.current({ code: 'missing-file', message: "This song's file isn't stored on this device." });
+          return;
         }
-      };
+        if (localAudioUrl.current) URL.revokeObjectURL(localAudioUrl.current);
+        localAudioUrl.current = URL.createObjectURL(file.audio);
+        songPlayer.load(localAudioUrl.current, startAt);
+      });
+  }, [view, currentSong]);
+
+  // Artwork for local songs comes from the stored file's tags.
+  const localArtworkSongId = currentSong && isLocalSong(currentSong) ? currentSong.id : null;
+  useEffect(() => {
+    if (!localArtworkSongId) return;
+    let cancelled = false;
+    let url: string | null = null;
+    libraryStorePromise
+      .then(store => store.loadAudioFile(localArtworkSongId))
+      .then(file => {
+        if (cancelled || !file?.artwork) return;
+        url = URL.createObjectURL(file.artwork);
+        setLocalArtworkUrl(url);
+      })
+      .catch(error => console.error("Failed to load artwork", error));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setLocalArtworkUrl(null);
+    };
+  }, [localArtworkSongId]);
 
-      if (ytPlayer.current) {
-         ytPlayer.current.loadVideoById(currentSong.id);
-      } else {
-        ytPlayer.current = new window.YT.Player('youtube-player', {
-          height: '150',
-          width: '100%',
-          videoId: currentSong.id,
-          playerVars: { 'autoplay': 1, 'controls': 0 },
-          events: {
-            'onReady': () => isPlayerReady.current = true,
-            'onStateChange': onPlayerStateChange
-          }
-        });
-      }
+  // Leaving Now Playing (or losing the current song) unmounts the player's iframe, so tear the
+  // player down and build a fresh one next time.
+  const hasCurrentSong = !!currentSong;
+  useEffect(() => {
+    if ((view === 'now-playing' && hasCurrentSong) || !player.current) return;
+    persistPlaybackSessionRef.current(); // Last chance to sample the position from this player
+    listeningTracker.paused();
+    crossfade.current?.finish();
+    crossfadeRequested.current = false;
+    releasePlayer(standbyPlayer.current);
+    standbyPlayer.current = null;
+    player.current.destroy();
+    player.current = null;
+    loadedSongKey.current = null;
+    if (localAudioUrl.current) URL.revokeObjectURL(localAudioUrl.current);
+    localAudioUrl.current = null;
+    setIsPlaying(false);
+  }, [view, hasCurrentSong, listeningTracker]);
+
+  // Everything needed to pick playback up again after a reload. While the Resume offer is still
+  // open and nothing else plays, keep offering the saved song rather than overwriting it.
+  const getPlaybackSession = (): PlaybackSession | null => {
+    if (!isLibraryLoaded) return null;
+    const modes = { playbackMode, repeatMode, shuffleMode, savedAt: new Date().toISOString() };
+    if (!currentSong) {
+      return resumableSession ? { ...resumableSession, ...modes } : { queue: null, playingUpNext: null, elapsedSeconds: 0, ...modes };
+    }
+    const playerTime = player.current ? player.current.getCurrentTime() : null;
+    if (playerTime !== null) {
+      lastElapsed.current = { songId: currentSong.id, seconds: playerTime };
+    } else if (lastElapsed.current.songId !== currentSong.id) {
+      lastElapsed.current = { songId: currentSong.id, seconds: 0 };
+    }
+    return { queue: activeQueue, playingUpNext, elapsedSeconds: lastElapsed.current.seconds, ...modes };
+  };
+  const persistPlaybackSession = () => {
+    const session = getPlaybackSession();
+    if (session) savePlaybackSession(session);
+  };
+  const persistPlaybackSessionRef = useRef(persistPlaybackSession);
+  persistPlaybackSessionRef.current = persistPlaybackSession;
+
+  useEffect(() => {
+    persistPlaybackSessionRef.current();
+  }, [isLibraryLoaded, activeQueue, playingUpNext, currentSong?.id, playbackMode, repeatMode, shuffleMode, resumableSession]);
+
+  // Sample the position while playing, and once more when the page goes away.
+  useEffect(() => {
+    if (!isPlaying) return;
+    const interval = setInterval(() => persistPlaybackSessionRef.current(), 5000);
+    return () => clearInterval(interval);
+  }, [isPlaying]);
+
+  useEffect(() => {
+    const saveSession = () => {
+      persistPlaybackSessionRef.current();
+      listeningTracker.flush();
     };
+    window.addEventListener('pagehide', saveSession);
+    return () => window.removeEventListener('pagehide', saveSession);
+  }, [listeningTracker]);
 
-    if (view === 'now-playing') {
-      if (!window.YT) {
-        window.onYouTubeIframeAPIReady = setupPlayer;
-      } else {
-        setupPlayer();
+  // The player has no event for reaching a clip's end point, so watch the clock while a clipped song plays.
+  useEffect(() => {
+    const clipEnd = currentSong?.endSeconds;
+    if (view !== 'now-playing' || !isPlaying || clipEnd === undefined) return;
+    const interval = setInterval(() => {
+      const playerTime = player.current?.getCurrentTime() ?? 0;
+      // Restarts and seeks move back before the end point, which re-arms it.
+      if (playerTime < clipEnd) clipEndHandled.current = false;
+      if (playerTime >= clipEnd && !clipEndHandled.current) {
+        clipEndHandled.current = true;
+        player.current?.pause();
+        handleSongEndRef.current();
       }
+    }, 250);
+    return () => clearInterval(interval);
+  }, [view, isPlaying, currentSong]);
+
+  // Loads a song into the idle player, paused at its start, unless it is already there.
+  const preloadSong = (song: Song) => {
+    const songKey = getSongKey(song);
+    if (standbyPlayer.current?.songKey === songKey) return;
+    releasePlayer(standbyPlayer.current);
+    standbyPlayer.current = null;
+    const source = getSongSource(song);
+    const elementId = YOUTUBE_PLAYER_ELEMENTS.find(id => id !== playerElement.current)!;
+    if (source === 'youtube' && !document.getElementById(elementId)) return;
+    const startAt = song.startSeconds ?? 0;
+    const standby: StandbyPlayer = { songKey, player: createListenedPlayer(source, elementId), source, elementId, audioUrl: null, isLoaded: false };
+    standbyPlayer.current = standby;
+    // A song that fails to preload is loaded again the usual way when its turn comes, so the error is shown then.
+    standby.player.onError(() => { standby.isLoaded = false; });
+    if (source === 'youtube') {
+      standby.player.preload(song.id, startAt);
+      standby.isLoaded = true;
+      return;
     }
+    libraryStorePromise
+      .then(store => store.loadAudioFile(song.id))
+      .catch(() => null)
+      .then(file => {
+        if (standbyPlayer.current !== standby || !file) return;
+        standby.audioUrl = URL.createObjectURL(file.audio);
+        standby.player.preload(standby.audioUrl, startAt);
+        standby.isLoaded = true;
+      });
+  };
 
-    return () => {
-        if (view !== 'now-playing' && ytPlayer.current && typeof ytPlayer.current.stopVideo === 'function') {
-            ytPlayer.current.stopVideo();
-        }
+  // Near the end of a song (or its clip), preload the next one so it starts without a gap.
+  // With Crossfade on, move on to it early instead, and fade from one to the other.
+  const checkUpcomingSong = () => {
+    // While a fade runs, the idle player is still busy with the song fading out.
+    if (!currentSong || !upcomingSong || !player.current || crossfade.current || crossfadeRequested.current) return;
+    const duration = player.current.getDuration() || currentSong.duration || 0;
+    if (duration <= 0) return;
+    const remaining = (currentSong.endSeconds ?? duration) - player.current.getCurrentTime();
+    const fadeSeconds = settings.crossfadeSeconds;
+    if (remaining > PRELOAD_AHEAD_SECONDS + fadeSeconds) return;
+    preloadSong(upcomingSong);
+    if (fadeSeconds > 0 && remaining <= fadeSeconds && standbyPlayer.current?.isLoaded) {
+      crossfadeRequested.current = true;
+      listeningTracker.ended();
+      applyTransition(upcomingTransition);
     }
-  }, [view, currentSong, handleSongEnd]);
+  };
+  const checkUpcomingSongRef = useRef(checkUpcomingSong);
+  checkUpcomingSongRef.current = checkUpcomingSong;
 
+  useEffect(() => {
+    if (view !== 'now-playing' || !isPlaying) return;
+    const interval = setInterval(() => checkUpcomingSongRef.current(), 250);
+    return () => clearInterval(interval);
+  }, [view, isPlaying]);
+
+  // The player doesn't report its position either, so poll it for the progress bar.
+  useEffect(() => {
+    if (view !== 'now-playing' || !currentSong) return;
+    const poll = () => {
+      if (!player.current) return;
+      setProgress({ time: player.current.getCurrentTime(), duration: player.current.getDuration() || currentSong.duration || 0 });
+    };
+    poll();
+    // Lyrics follow the song line by line, so they need a finer clock than the progress bar.
+    const interval = setInterval(poll, nowPlayingWheelMode === 'lyrics' ? 200 : 500);
+    return () => clearInterval(interval);
+  }, [view, currentSong, nowPlayingWheelMode]);
 
   const handleNext = () => {
     playScrollSound();
@@ -320,13 +1106,51 @@ const App: React.FC = () => {
       case 'main-menu': navigate(menuItems, 'next'); break;
       case 'playlists': navigate(playlistMenuItems, 'next'); break;
       case 'playlist-view': navigate(playlistViewItems, 'next'); break;
-      case 'select-playlist-for-song': navigate([...playlists, {id: 'new', name: 'Create New Playlist', songs:[]}], 'next'); break;
-      case 'song-menu': navigate(['Play'], 'next'); break;
+      case 'select-playlist-for-song': navigate(addToPlaylistItems, 'next'); break;
+      case 'song-menu': navigate(songMenuItems, 'next'); break;
+      case 'clip-editor':
+        if (editingClipPoint) adjustClipEditValue(1);
+        else navigate([...clipEditorItems], 'next');
+        break;
+      case 'smart-playlist-editor':
+        if (adjustingSmartValue) adjustSmartValue(1);
+        else navigate(smartEditorItems, 'next');
+        break;
+      case 'smart-rule-editor':
+        if (adjustingSmartValue) adjustSmartValue(1);
+        else navigate(smartRuleEditorItems, 'next');
+        break;
       case 'delete-song-confirm':
       case 'delete-playlist-confirm':
-      case 'shuffle-confirm':
+      case 'reset-settings-confirm':
           navigate(['No', 'Yes'], 'next'); break;
-      case 'now-playing': navigate(nowPlayingMenuItems, 'next'); break;
+      case 'now-playing':
+        if (nowPlayingWheelMode === 'track') navigate(nowPlayingMenuItems, 'next');
+        else adjustNowPlayingWheel(1);
+        break;
+      case 'up-next':
+        if (isMovingUpNextItem) moveSelectedUpNextItem(1);
+        else if (upNextMenuItems.length > 0) navigate(upNextMenuItems, 'next');
+        break;
+      case 'up-next-item-menu': navigate(upNextItemMenuItems, 'next'); break;
+      case 'controls': if (!rebindingAction) navigate([...controlsItems], 'next'); break;
+      case 'library': navigate(libraryMenuItems, 'next'); break;
+      case 'settings': navigate([...settingsItems], 'next'); break;
+      case 'setting-choice': navigate(settingOptions, 'next'); break;
+      case 'skins': navigate(skinItems, 'next'); break;
+      case 'import-confirm': navigate(importOptions, 'next'); break;
+      case 'bulk-add-review': navigate(bulkAddReviewItems, 'next'); break;
+      case 'music': navigate(musicMenuItems, 'next'); break;
+      case 'music-songs':
+      case 'music-artists':
+      case 'music-albums':
+        navigateAlphabetical('next'); break;
+      case 'cover-flow':
+        if (coverFlowTrackIndex !== null) moveCoverFlowTrack(1);
+        else navigateAlphabetical('next');
+        break;
+      case 'music-search': navigate(SEARCH_KEYS, 'next'); break;
+      case 'music-search-results': navigate(musicSearchResultItems, 'next'); break;
     }
   };
 
@@ -337,58 +1161,135 @@ const App: React.FC = () => {
       case 'main-menu': navigate(menuItems, 'prev'); break;
       case 'playlists': navigate(playlistMenuItems, 'prev'); break;
       case 'playlist-view': navigate(playlistViewItems, 'prev'); break;
-      case 'select-playlist-for-song': navigate([...playlists, {id: 'new', name: 'Create New Playlist', songs:[]}], 'prev'); break;
-      case 'song-menu': navigate(['Play'], 'prev'); break;
+      case 'select-playlist-for-song': navigate(addToPlaylistItems, 'prev'); break;
+      case 'song-menu': navigate(songMenuItems, 'prev'); break;
+      case 'clip-editor':
+        if (editingClipPoint) adjustClipEditValue(-1);
+        else navigate([...clipEditorItems], 'prev');
+        break;
+      case 'smart-playlist-editor':
+        if (adjustingSmartValue) adjustSmartValue(-1);
+        else navigate(smartEditorItems, 'prev');
+        break;
+      case 'smart-rule-editor':
+        if (adjustingSmartValue) adjustSmartValue(-1);
+        else navigate(smartRuleEditorItems, 'prev');
+        break;
       case 'delete-song-confirm':
       case 'delete-playlist-confirm':
-      case 'shuffle-confirm':
+      case 'reset-settings-confirm':
           navigate(['No', 'Yes'], 'prev'); break;
-      case 'now-playing': navigate(nowPlayingMenuItems, 'prev'); break;
+      case 'now-playing':
+        if (nowPlayingWheelMode === 'track') navigate(nowPlayingMenuItems, 'prev');
+        else adjustNowPlayingWheel(-1);
+        break;
+      case 'up-next':
+        if (isMovingUpNextItem) moveSelectedUpNextItem(-1);
+        else if (upNextMenuItems.length > 0) navigate(upNextMenuItems, 'prev');
+        break;
+      case 'up-next-item-menu': navigate(upNextItemMenuItems, 'prev'); break;
+      case 'controls': if (!rebindingAction) navigate([...controlsItems], 'prev'); break;
+      case 'library': navigate(libraryMenuItems, 'prev'); break;
+      case 'settings': navigate([...settingsItems], 'prev'); break;
+      case 'setting-choice': navigate(settingOptions, 'prev'); break;
+      case 'skins': navigate(skinItems, 'prev'); break;
+      case 'import-confirm': navigate(importOptions, 'prev'); break;
+      case 'bulk-add-review': navigate(bulkAddReviewItems, 'prev'); break;
+      case 'music': navigate(musicMenuItems, 'prev'); break;
+      case 'music-songs':
+      case 'music-artists':
+      case 'music-albums':
+        navigateAlphabetical('prev'); break;
+      case 'cover-flow':
+        if (coverFlowTrackIndex !== null) moveCoverFlowTrack(-1);
+        else navigateAlphabetical('prev');
+        break;
+      case 'music-search': navigate(SEARCH_KEYS, 'prev'); break;
+      case 'music-search-results': navigate(musicSearchResultItems, 'prev'); break;
     }
   };
 
   const handleMenu = () => {
     triggerVibration();
-    setSelectedIndex(0);
-    
-    switch (view) {
-      case 'playlists': setView('main-menu'); setPlaylistSearchQuery(''); break;
-      case 'playlist-view': setView('playlists'); setActivePlaylistId(null); break;
-      case 'add-song': if (playlists.length > 0) setView('main-menu'); setUrlInput(''); break;
-      case 'now-playing': setView(activePlaylistId ? 'playlist-view' : 'main-menu'); break;
-      case 'select-playlist-for-song': setView('add-song'); setTempSong(null); break;
+    if (rebindingAction) {
+      setRebindingAction(null);
+      return;
+    }
+    // Screens with a sub-mode leave it before going back.
+    if (view === 'now-playing' && nowPlayingWheelMode !== 'track') {
+      setNowPlayingWheelMode('track');
+      setSelectedIndex(nowPlayingMenuItems.indexOf(nowPlayingWheelMode === 'rating' || nowPlayingWheelMode === 'lyrics' ? nowPlayingWheelMode : 'progress'));
+      return;
+    }
+    if (view === 'up-next' && isMovingUpNextItem) {
+      setIsMovingUpNextItem(false);
+      return;
+    }
+    if (view === 'clip-editor' && editingClipPoint) {
+      setEditingClipPoint(null);
+      return;
+    }
+    if ((view === 'smart-playlist-editor' || view === 'smart-rule-editor') && adjustingSmartValue) {
+      setAdjustingSmartValue(null);
+      return;
+    }
+    if (view === 'cover-flow' && coverFlowTrackIndex !== null) {
+      setCoverFlowTrackIndex(null);
+      return;
+    }
+    // The first run starts on Add Songs; there is nowhere to go back to until something is added.
+    if (view === 'add-song' && playlists.length === 0) return;
+
+    leaveScreen(view);
+    goBack();
+  };
+
+  // Long-pressing Menu jumps straight to the main menu.
+  const handleMenuLongPress = () => {
+    if (rebindingAction) return;
+    navigation.slice(1).forEach(entry => leaveScreen(entry.view));
+    setIsMovingUpNextItem(false);
+    setEditingClipPoint(null);
+    setAdjustingSmartValue(null);
+    setNavigation(popToRoot);
+  };
+
+  // Clears what a screen was holding once it is closed for good.
+  const leaveScreen = (closing: View) => {
+    switch (closing) {
+      case 'playlists': setPlaylistSearchQuery(''); break;
+      case 'music-search': setMusicSearchQuery(''); break;
+      case 'cover-flow': setCoverFlowTrackIndex(null); break;
+      case 'add-song': clearPendingSongs(); break;
       case 'create-playlist-input':
-        setView(tempSong ? 'select-playlist-for-song' : 'playlists');
-        setNewPlaylistName('');
-        break;
-      case 'song-menu': setView('playlist-view'); setSelectedSongIndex(null); break;
-      case 'delete-song-confirm': setView('song-menu'); break;
-      case 'delete-playlist-confirm': setView('playlist-view'); setPlaylistToDeleteId(null); break;
-      case 'shuffle-confirm': setView('playlist-view'); break;
-      default:
-        if (playlists.length > 0 && view !== 'main-menu') {
-            setView('main-menu');
+        if (isSavingOnTheGo) {
+          setIsSavingOnTheGo(false);
+          setPendingSongs([]);
         }
+        setNewPlaylistName('');
         break;
+      case 'smart-playlist-editor': setSmartDraft(null); break;
+      case 'import-confirm': setPendingImport(null); break;
+      case 'import-report': setImportReport(null); break;
+      case 'lyrics-editor': setLyricsDraft(''); break;
     }
   };
 
   const handlePlayPause = useCallback(() => {
       triggerVibration();
-      if (ytPlayer.current && isPlayerReady.current) {
-        const playerState = ytPlayer.current.getPlayerState();
-        if (playerState === window.YT.PlayerState.PLAYING) {
-          ytPlayer.current.pauseVideo();
+      if (player.current) {
+        crossfade.current?.finish(); // Pausing mid-fade pauses both songs, so drop the one on its way out
+        if (player.current.getState() === 'playing') {
+          player.current.pause();
         } else {
-          ytPlayer.current.playVideo();
+          player.current.play();
         }
       } else if (currentSong) {
         setIsPlaying(!isPlaying);
       } else if (playlists.length > 0 && playlists[0].songs.length > 0) {
-        setNowPlaying({ playlistId: playlists[0].id, songIndex: 0 });
-        setView('now-playing');
+        startPlayback(playlists[0], playlists[0].songs[0].id);
       }
-  }, [currentSong, isPlaying, playlists]);
+  }, [currentSong, isPlaying, playlists, shuffleMode]);
 
   const handleCenterClick = () => {
     triggerVibration();
@@ -397,36 +1298,169 @@ const App: React.FC = () => {
       case 'playlists': handlePlaylistsSelection(selectedIndex); break;
       case 'playlist-view': handlePlaylistViewSelection(selectedIndex); break;
       case 'song-menu': handleSongMenuSelection(selectedIndex); break;
+      case 'up-next': handleUpNextSelection(selectedIndex); break;
+      case 'up-next-item-menu': handleUpNextItemMenuSelection(selectedIndex); break;
+      case 'clip-editor': handleClipEditorSelection(selectedIndex); break;
+      case 'smart-playlist-editor': handleSmartEditorSelection(selectedIndex); break;
+      case 'smart-rule-editor': handleSmartRuleEditorSelection(selectedIndex); break;
       case 'delete-song-confirm': handleConfirmation(selectedIndex); break;
       case 'delete-playlist-confirm': handleConfirmation(selectedIndex); break;
-      case 'shuffle-confirm': handleConfirmation(selectedIndex); break;
       case 'add-song': handleAddSongUrl(); break;
+      case 'bulk-add-review': handleBulkAddReviewSelection(selectedIndex); break;
       case 'select-playlist-for-song': handleSelectPlaylistForSongSelection(selectedIndex); break;
       case 'create-playlist-input': handleCreatePlaylist(); break;
       case 'now-playing': handleNowPlayingSelection(selectedIndex); break;
+      case 'controls': handleControlsSelection(selectedIndex); break;
+      case 'library': handleLibrarySelection(selectedIndex); break;
+      case 'settings': handleSettingsSelection(selectedIndex); break;
+      case 'setting-choice': handleSettingChoiceSelection(selectedIndex); break;
+      case 'reset-settings-confirm': handleConfirmation(selectedIndex); break;
+      case 'skins': handleSkinSelection(selectedIndex); break;
+      case 'import-confirm': handleImportConfirmSelection(selectedIndex); break;
+      case 'music': handleMusicSelection(selectedIndex); break;
+      case 'music-songs': handleMusicSongSelection(selectedIndex); break;
+      case 'music-artists':
+      case 'music-albums':
+        handleMusicGroupSelection(selectedIndex); break;
+      case 'cover-flow': handleCoverFlowSelection(selectedIndex); break;
+      case 'music-search': handleMusicSearchKey(selectedIndex); break;
+      case 'music-search-results': handleMusicSearchResultSelection(selectedIndex); break;
+      case 'lyrics-editor': handleSaveLyrics(); break;
+      case 'import-report':
+        setImportReport(null);
+        setNavigation(prev => pushScreen(popToRoot(prev), 'playlists'));
+        break;
     }
   };
 
   const handleMainMenuSelection = (index: number) => {
     setSelectedIndex(index);
     const selectedMenu = menuItems[index];
-    if (selectedMenu === 'Playlists') setView('playlists');
-    if (selectedMenu === 'Add YouTube URL') setView('add-song');
-    if (selectedMenu === 'Now Playing' && currentSong) setView('now-playing');
-    setSelectedIndex(0);
+    if (selectedMenu === 'Resume') { handleResume(); return; }
+    if (selectedMenu === 'Playlists') openScreen('playlists');
+    if (selectedMenu === 'Music') openScreen('music');
+    if (selectedMenu === 'Add Songs') openScreen('add-song');
+    if (selectedMenu === 'Now Playing' && currentSong) openScreen('now-playing');
+    if (selectedMenu === 'Up Next') openScreen('up-next');
+    if (selectedMenu === 'Library') openScreen('library');
+    if (selectedMenu === 'Controls') openScreen('controls');
+    if (selectedMenu === 'Settings') openScreen('settings');
+    if (selectedMenu.startsWith('Undo ')) handleUndo();
+    if (selectedMenu.startsWith('Redo ')) handleRedo();
   };
   
-  const handlePlaylistsSelection = (index: number) => {
+  const handleMusicSelection = (index: number) => {
+    setSelectedIndex(index);
+    const selectedItem = musicMenuItems[index];
+    if (selectedItem === 'Songs') openScreen('music-songs', { collectionId: MUSIC_SONGS_ID });
+    if (selectedItem === 'Artists') openScreen('music-artists');
+    if (selectedItem === 'Albums') openScreen('music-albums');
+    if (selectedItem === 'Search') openScreen('music-search');
+    if (selectedItem === 'Cover Flow') openScreen('cover-flow');
+  };
+
+  const handleMusicGroupSelection = (index: number) => {
+    const group = (view === 'music-artists' ? musicLibrary.artists : musicLibrary.albums)[index];
+    if (!group) return;
+    setSelectedIndex(index);
+    openScreen('music-songs', { collectionId: group.id });
+  };
+
+  // Songs play within the list they were picked from, so next and previous follow it.
+  const handleMusicSongSelection = (index: number) => {
+    const song = musicCollection?.songs[index];
+    if (!musicCollection || !song) return;
+    setSelectedIndex(index);
+    startPlayback(toMusicPlaylist(musicCollection), song.id);
+  };
+
+  // Center flips the selected cover over to its track list, then plays the chosen track from the album.
+  const handleCoverFlowSelection = (index: number) => {
+    const album = musicLibrary.coverFlowAlbums[index];
+    if (!album) return;
+    if (coverFlowTrackIndex === null) {
+      setCoverFlowTrackIndex(0);
+      return;
+    }
+    const song = album.songs[coverFlowTrackIndex];
+    if (song) startPlayback(toMusicPlaylist(album), song.id);
+  };
+
+  // Clicking a cover beside the selection brings it to the middle; clicking the middle one flips it.
+  const handleCoverFlowCoverClick = (index: number) => {
+    triggerVibration();
+    if (index === selectedIndex) {
+      setCoverFlowTrackIndex(prev => prev === null ? 0 : null);
+      return;
+    }
+    setCoverFlowTrackIndex(null);
     setSelectedIndex(index);
+  };
+
+  const handleCoverFlowTrackClick = (index: number) => {
+    const album = musicLibrary.coverFlowAlbums[selectedIndex];
+    if (!album?.songs[index]) return;
+    setCoverFlowTrackIndex(index);
+    startPlayback(toMusicPlaylist(album), album.songs[index].id);
+  };
+
+  const moveCoverFlowTrack = (direction: 1 | -1) => {
+    const trackCount = musicLibrary.coverFlowAlbums[selectedIndex]?.songs.length ?? 0;
+    if (trackCount === 0) return;
+    setCoverFlowTrackIndex(prev => ((prev ?? 0) + direction + trackCount) % trackCount);
+  };
+
+  // Turning the device sideways while browsing Music opens Cover Flow on the album being looked at,
+  // and turning it back returns to the list.
+  const wasCoverFlowAvailable = useRef(isCoverFlowAvailable);
+  useEffect(() => {
+    if (wasCoverFlowAvailable.current === isCoverFlowAvailable) return;
+    wasCoverFlowAvailable.current = isCoverFlowAvailable;
+    if (isCoverFlowAvailable && COVER_FLOW_VIEWS.includes(view)) {
+      const albumId = view === 'music-albums' ? musicLibrary.albums[selectedIndex]?.id : screen.params.collectionId;
+      const albumIndex = musicLibrary.coverFlowAlbums.findIndex(album => album.id === albumId);
+      setNavigation(prev => pushScreen(prev, 'cover-flow', {}, Math.max(albumIndex, 0)));
+    } else if (!isCoverFlowAvailable && view === 'cover-flow') {
+      leaveScreen('cover-flow');
+      goBack();
+    }
+  }, [isCoverFlowAvailable]);
+
+  const handleMusicSearchKey = (index: number) => {
+    setSelectedIndex(index);
+    const key = SEARCH_KEYS[index];
+    if (key === 'DELETE') {
+      setMusicSearchQuery(prev => prev.slice(0, -1));
+    } else if (key === 'DONE') {
+      if (musicSearchQuery.trim()) openScreen('music-search-results');
+    } else if (key !== ' ' || (musicSearchQuery && !musicSearchQuery.endsWith(' '))) {
+      setMusicSearchQuery(prev => prev + key.toLowerCase());
+    }
+  };
+
+  const handleMusicSearchResultSelection = (index: number) => {
+    const result = musicSearchResultItems[index];
+    if (!result) return;
+    setSelectedIndex(index);
+    if (result.isPlaylist) openScreen('playlist-view', { playlistId: result.id });
+    else startPlayback(toMusicPlaylist(musicSearchResults.songs), result.id);
+  };
+
+  const handlePlaylistsSelection = (index: number) => {
     const selectedPlaylistItem = playlistMenuItems[index];
+    if (!selectedPlaylistItem) return;
+    // The search is cleared on the way out, so remember the selection as a position in the full list.
+    const allPlaylists = [...builtInPlaylists, ...libraryPlaylists];
+    const fullListIndex = allPlaylists.findIndex(p => p.id === selectedPlaylistItem.id);
+    setSelectedIndex(fullListIndex !== -1 ? fullListIndex : allPlaylists.length + index - playlistItems.length);
+    setPlaylistSearchQuery('');
     if (selectedPlaylistItem.id === 'CREATE_NEW') {
-      setView('create-playlist-input');
+      openScreen('create-playlist-input');
+    } else if (selectedPlaylistItem.id === 'CREATE_SMART') {
+      openSmartPlaylistEditor(null);
     } else {
-        setActivePlaylistId(selectedPlaylistItem.id);
-        setView('playlist-view');
+      openScreen('playlist-view', { playlistId: selectedPlaylistItem.id });
     }
-    setSelectedIndex(0);
-    setPlaylistSearchQuery('');
   };
 
   const handlePlaylistViewSelection = (index: number) => {
@@ -435,121 +1469,746 @@ const App: React.FC = () => {
     if (!selectedItem) return;
 
     if (selectedItem.id === 'SHUFFLE_PLAYLIST') {
-        setView('shuffle-confirm');
+        handleShufflePlaylist();
+    } else if (selectedItem.id === 'EDIT_RULES') {
+        openSmartPlaylistEditor(activePlaylist ?? null);
+    } else if (selectedItem.id === 'SAVE_ON_THE_GO') {
+        setPendingSongs(onTheGo);
+        setIsSavingOnTheGo(true);
+        openScreen('create-playlist-input');
+    } else if (selectedItem.id === 'CLEAR_ON_THE_GO') {
+        triggerVibration(100);
+        setOnTheGo([]);
+        showToast('On-The-Go Cleared');
     } else if (selectedItem.id === 'DELETE_PLAYLIST') {
-        setPlaylistToDeleteId(activePlaylistId);
-        setView('delete-playlist-confirm');
+        openScreen('delete-playlist-confirm');
     } else { // It's a song
         const songIndex = activePlaylist?.songs.findIndex(s => s.id === selectedItem.id) ?? -1;
         if(songIndex > -1){
-            setSelectedSongIndex(songIndex);
-            setView('song-menu');
+            openScreen('song-menu', { songIndex });
         }
     }
-    setSelectedIndex(0);
   };
 
   const handleSongMenuSelection = (index: number) => {
     setSelectedIndex(index);
-    if (index === 0) { // Play
-        setNowPlaying({ playlistId: activePlaylistId!, songIndex: selectedSongIndex! });
-        setView('now-playing');
+    const selectedItem = songMenuItems[index];
+    const song = activePlaylist?.songs[selectedSongIndex!];
+    if (selectedItem === 'Play' && activePlaylist && song) {
+        startPlayback(activePlaylist, song.id);
     }
-    setSelectedIndex(0);
+    if ((selectedItem === 'Play Next' || selectedItem === 'Add to Up Next') && activePlaylist && song) {
+        handleQueueSong(song, activePlaylist.id, selectedItem === 'Play Next' ? 'next' : 'last');
+    }
+    if (selectedItem === 'Lyrics' && song) {
+        openLyricsEditor(song.id);
+    }
+    if (selectedItem === 'Clip Points') {
+        setEditingClipPoint(null);
+        openScreen('clip-editor');
+    }
+  };
+
+  const openLyricsEditor = (songId: string) => {
+    setLyricsDraft(lyrics[songId] ?? '');
+    openScreen('lyrics-editor', { songId });
+  };
+
+  const handleSaveLyrics = () => {
+    const songId = screen.params.songId;
+    if (!songId) return;
+    triggerVibration(100);
+    setLyrics(prev => setSongLyrics(prev, songId, lyricsDraft));
+    showToast(lyricsDraft.trim() ? 'Lyrics saved' : 'Lyrics removed');
+    setLyricsDraft('');
+    goBack();
+  };
+
+  const handleLyricsFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setLyricsDraft(await file.text());
+    } catch (error) {
+      console.error("Failed to read lyrics file", error);
+      triggerVibration([100, 50, 100]);
+      alert('Could not read the lyrics file.');
+    }
+  };
+
+  const handleUpNextSelection = (index: number) => {
+    if (isMovingUpNextItem) {
+      triggerVibration(100);
+      setIsMovingUpNextItem(false);
+      return;
+    }
+    setSelectedIndex(index);
+    const selectedItem = upNextMenuItems[index];
+    if (!selectedItem) return;
+    if (selectedItem === 'CLEAR_UP_NEXT') {
+      triggerVibration(100);
+      setUpNext([]);
+      setSelectedIndex(0);
+    } else {
+      openScreen('up-next-item-menu', { upNextIndex: index });
+    }
+  };
+
+  const handleUpNextItemMenuSelection = (index: number) => {
+    const item = upNextItemIndex !== null ? upNext[upNextItemIndex] : undefined;
+    if (!item) {
+      goBack();
+      return;
+    }
+    setSelectedIndex(index);
+    const selectedAction = upNextItemMenuItems[index];
+    if (selectedAction === 'Play Now') {
+      setUpNext(prev => prev.filter(i => i.key !== item.key));
+      if (item.song.id === currentSong?.id) restartSong(player.current, currentSong);
+      setPlayingUpNext(item);
+      showNowPlaying();
+    } else if (selectedAction === 'Move') {
+      setIsMovingUpNextItem(true);
+      goBack(upNextItemIndex!);
+    } else if (selectedAction === 'Remove') {
+      triggerVibration(100);
+      setUpNext(prev => prev.filter(i => i.key !== item.key));
+      goBack(Math.min(upNextItemIndex!, Math.max(upNext.length - 2, 0)));
+    }
+  };
+
+  // While moving, the selection is the entry being moved.
+  const moveSelectedUpNextItem = (offset: 1 | -1) => {
+    const target = selectedIndex + offset;
+    if (target < 0 || target >= upNext.length) return;
+    setUpNext(prev => moveUpNextItem(prev, selectedIndex, target));
+    setSelectedIndex(target);
+  };
+
+  const updateSelectedSong = (changes: Partial<Song>) => {
+    if (activePlaylistId === null || selectedSongIndex === null) return;
+    setPlaylists(prev => prev.map(p => p.id === activePlaylistId
+      ? { ...p, songs: p.songs.map((s, i) => i === selectedSongIndex ? { ...s, ...changes } : s) }
+      : p));
+  };
+
+  const getClipBounds = (song: Song, point: 'start' | 'end') => {
+    const songEnd = song.duration ?? Infinity;
+    return point === 'start'
+      ? { min: 0, max: (song.endSeconds ?? songEnd) - 1 }
+      : { min: (song.startSeconds ?? 0) + 1, max: songEnd };
+  };
+
+  const handleClipEditorSelection = (index: number) => {
+    const song = activePlaylist?.songs[selectedSongIndex!];
+    if (!song) return;
+    setSelectedIndex(index);
+
+    if (editingClipPoint) {
+      triggerVibration(100);
+      updateSelectedSong(editingClipPoint === 'start' ? { startSeconds: clipEditValue || undefined } : { endSeconds: clipEditValue });
+      setEditingClipPoint(null);
+      return;
+    }
+
+    const selectedItem = clipEditorItems[index];
+    if (selectedItem === 'clear') {
+      triggerVibration(100);
+      updateSelectedSong({ startSeconds: undefined, endSeconds: undefined });
+    } else if (selectedItem === 'start') {
+      setClipEditValue(song.startSeconds ?? 0);
+      setEditingClipPoint('start');
+    } else if (selectedItem === 'end') {
+      setClipEditValue(song.endSeconds ?? song.duration ?? (song.startSeconds ?? 0) + 60);
+      setEditingClipPoint('end');
+    }
+  };
+
+  const adjustClipEditValue = (direction: 1 | -1) => {
+    const song = activePlaylist?.songs[selectedSongIndex!];
+    if (!song || !editingClipPoint) return;
+    const step = getSeekStep(seekWheelStreak.current);
+
+    const { min, max } = getClipBounds(song, editingClipPoint);
+    setClipEditValue(prev => Math.min(Math.max(prev + direction * step, min), max));
   };
   
+  const openSmartPlaylistEditor = (playlist: Playlist | null) => {
+    setSmartDraft(playlist?.smart
+      ? { playlistId: playlist.id, name: playlist.name, rules: playlist.smart }
+      : { playlistId: null, name: '', rules: createSmartPlaylistRules() });
+    setAdjustingSmartValue(null);
+    openScreen('smart-playlist-editor');
+  };
+
+  const updateSmartDraftRules = (change: (rules: SmartPlaylistRules) => SmartPlaylistRules) => {
+    setSmartDraft(prev => prev && { ...prev, rules: change(prev.rules) });
+  };
+
+  const updateEditingRule = (change: (rule: SmartRule) => SmartRule) => {
+    updateSmartDraftRules(rules => ({ ...rules, rules: rules.rules.map((rule, i) => i === editingRuleIndex ? change(rule) : rule) }));
+  };
+
+  // The name and "contains" rows hold a text field; the center button moves into it and back out.
+  const toggleSmartTextInput = () => {
+    const input = smartTextInput.current;
+    if (!input) return;
+    if (document.activeElement === input) input.blur();
+    else input.focus();
+  };
+
+  const handleSmartEditorSelection = (index: number) => {
+    setSelectedIndex(index);
+    if (!smartDraft) return;
+    if (adjustingSmartValue) {
+      setAdjustingSmartValue(null);
+      return;
+    }
+    const item = smartEditorItems[index];
+    if (item === 'name') {
+      toggleSmartTextInput();
+    } else if (item === 'match') {
+      updateSmartDraftRules(rules => ({ ...rules, match: rules.match === 'all' ? 'any' : 'all' }));
+    } else if (item.startsWith('rule-') || item === 'add-rule') {
+      const ruleIndex = item === 'add-rule' ? smartDraft.rules.rules.length : Number(item.slice('rule-'.length));
+      if (item === 'add-rule') updateSmartDraftRules(rules => ({ ...rules, rules: [...rules.rules, createSmartRule('title')] }));
+      openScreen('smart-rule-editor', { ruleIndex });
+    } else if (item === 'limit') {
+      setAdjustingSmartValue('limit');
+    } else if (item === 'sort') {
+      updateSmartDraftRules(rules => ({
+        ...rules,
+        sort: SMART_PLAYLIST_SORTS[(SMART_PLAYLIST_SORTS.indexOf(rules.sort) + 1) % SMART_PLAYLIST_SORTS.length],
+      }));
+    } else if (item === 'save') {
+      handleSaveSmartPlaylist();
+    }
+  };
+
+  const handleSmartRuleEditorSelection = (index: number) => {
+    setSelectedIndex(index);
+    if (adjustingSmartValue) {
+      setAdjustingSmartValue(null);
+      return;
+    }
+    const item = smartRuleEditorItems[index];
+    if (item === 'field') {
+      updateEditingRule(cycleSmartRuleField);
+    } else if (item === 'contains') {
+      toggleSmartTextInput();
+    } else if (item === 'remove') {
+      triggerVibration(100);
+      updateSmartDraftRules(rules => ({ ...rules, rules: rules.rules.filter((_, i) => i !== editingRuleIndex) }));
+      goBack(smartEditorItems.indexOf('add-rule') - 1);
+    } else if (item in SMART_RULE_NUMBER_VALUES) {
+      setAdjustingSmartValue(item as SmartRuleNumberKey);
+    }
+  };
+
+  const adjustSmartValue = (direction: 1 | -1) => {
+    if (adjustingSmartValue === 'limit') {
+      updateSmartDraftRules(rules => ({ ...rules, limit: adjustSmartPlaylistLimit(rules.limit, direction) }));
+    } else if (adjustingSmartValue) {
+      updateEditingRule(rule => adjustSmartRule(rule, adjustingSmartValue, direction));
+    }
+  };
+
+  const handleSaveSmartPlaylist = () => {
+    if (!smartDraft) return;
+    triggerVibration(100);
+    const name = smartDraft.name.trim() || 'Smart Playlist';
+    const id = smartDraft.playlistId ?? Date.now().toString();
+    setPlaylists(prev => smartDraft.playlistId
+      ? prev.map(p => p.id === id ? { ...p, name, smart: smartDraft.rules } : p)
+      : [...prev, { id, name, songs: [], smart: smartDraft.rules }].sort((a, b) =>
+          a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
+        ));
+    setSmartDraft(null);
+    // Editing returns to the playlist it was opened from; a new playlist opens in place of the editor.
+    if (smartDraft.playlistId) goBack();
+    else setNavigation(prev => replaceScreen(prev, 'playlist-view', { playlistId: id }));
+  };
+
   const handleConfirmation = (index: number) => {
     setSelectedIndex(index);
     if (index === 1) { // Yes
       if (view === 'delete-song-confirm') handleDeleteSong();
       if (view === 'delete-playlist-confirm') handleDeletePlaylist();
-      if (view === 'shuffle-confirm') handleShufflePlaylist();
+      if (view === 'reset-settings-confirm') handleResetSettings();
     } else { // No
-      if (view === 'delete-song-confirm') setView('song-menu');
-      if (view === 'delete-playlist-confirm') {
-          setView('playlist-view');
-          setPlaylistToDeleteId(null);
+      goBack();
+    }
+  };
+  
+  const handleSelectPlaylistForSongSelection = (index: number) => {
+    setSelectedIndex(index);
+    const selection = addToPlaylistItems[index];
+    if (selection.id === 'new') {
+        openScreen('create-playlist-input');
+    } else if (pendingSongs.length > 0) {
+        addSongsToPlaylist(selection.id, pendingSongs);
+    }
+  };
+
+  const handleNowPlayingSelection = (index: number) => {
+    setSelectedIndex(index);
+    const selectedAction = nowPlayingMenuItems[index];
+    switch(selectedAction) {
+        case 'prev': handlePrevTrack(); break;
+        case 'play-pause': handlePlayPause(); break;
+        case 'next': handleNextTrack(); break;
+        case 'playback-mode':
+            setPlaybackMode(prev => prev === 'video' ? 'audio' : 'video');
+            break;
+        case 'repeat-mode':
+            setRepeatMode(prev => {
+                if (prev === 'off') return 'all';
+                if (prev === 'all') return 'one';
+                return 'off';
+            });
+            break;
+        case 'shuffle-mode':
+            handleToggleShuffle();
+            break;
+        case 'progress':
+            // Like the original iPod, the center button steps the wheel through scrubbing and volume and back.
+            if (currentSong) setNowPlayingWheelMode(prev => prev === 'track' ? 'scrub' : prev === 'scrub' ? 'volume' : 'track');
+            break;
+        case 'rating':
+            if (currentSong) setNowPlayingWheelMode(prev => prev === 'rating' ? 'track' : 'rating');
+            break;
+        case 'lyrics':
+            if (!currentSong) break;
+            if (!currentLyrics) openLyricsEditor(currentSong.id);
+            else if (nowPlayingWheelMode !== 'lyrics') setNowPlayingWheelMode('lyrics');
+            else if (lyricsCursor !== null) seekToLyricLine(lyricsCursor);
+            else setNowPlayingWheelMode('track');
+            break;
+    }
+  };
+
+  // Lyrics attached to the song playing, and the line being sung now.
+  const currentLyrics = useMemo(() => {
+    const text = currentSong ? lyrics[currentSong.id] : undefined;
+    return text ? parseLyrics(text) : null;
+  }, [currentSong?.id, lyrics]);
+  const currentLyricLine = currentLyrics ? findLyricLine(currentLyrics, progress.time) : -1;
+
+  // Browsing the lyrics ends with the song, or when the wheel leaves Lyrics mode.
+  useEffect(() => {
+    setLyricsCursor(null);
+  }, [nowPlayingWheelMode, currentSong?.id]);
+
+  // Turning the wheel in Lyrics mode picks a line; the center button then plays from it.
+  const moveLyricsCursor = (direction: 1 | -1) => {
+    if (!currentLyrics || currentLyrics.lines.length === 0) return;
+    const from = lyricsCursor ?? Math.max(currentLyricLine, 0);
+    setLyricsCursor(Math.min(Math.max(from + direction, 0), currentLyrics.lines.length - 1));
+    if (lyricsBrowseTimeout.current) clearTimeout(lyricsBrowseTimeout.current);
+    lyricsBrowseTimeout.current = setTimeout(() => setLyricsCursor(null), LYRICS_BROWSE_MS);
+  };
+
+  // Lines without a timestamp have nowhere to seek to, so picking one just stops browsing.
+  const seekToLyricLine = (index: number) => {
+    const seconds = currentLyrics?.lines[index]?.seconds;
+    if (lyricsBrowseTimeout.current) clearTimeout(lyricsBrowseTimeout.current);
+    setLyricsCursor(null);
+    if (seconds === undefined || !player.current) return;
+    player.current.seek(seconds);
+    setProgress(prev => ({ ...prev, time: seconds }));
+  };
+
+  const currentSongRating = currentSong ? findSongRating(playlists, currentSong.id) : 0;
+
+  const adjustCurrentSongRating = (direction: 1 | -1) => {
+    if (!currentSong) return;
+    const rating = Math.min(Math.max(currentSongRating + direction, 0), MAX_RATING);
+    if (rating !== currentSongRating) setPlaylists(prev => applySongRating(prev, currentSong.id, rating));
+  };
+
+  const getClipRange = (song: Song, duration: number) => ({
+    start: song.startSeconds ?? 0,
+    end: song.endSeconds ?? duration,
+  });
+
+  const handleScrub = (direction: 1 | -1) => {
+    if (!currentSong || !player.current || progress.duration <= 0) return;
+    const { start, end } = getClipRange(currentSong, progress.duration);
+    const from = scrubPosition ?? progress.time;
+    const target = Math.min(Math.max(from + direction * getSeekStep(seekWheelStreak.current), start), Math.max(end - 1, start));
+    setScrubPosition(target);
+    if (scrubSeekTimeout.current) clearTimeout(scrubSeekTimeout.current);
+    scrubSeekTimeout.current = setTimeout(() => {
+      player.current?.seek(target);
+      setScrubPosition(null);
+    }, SCRUB_SEEK_DELAY_MS);
+  };
+
+  const handleVolumeChange = (direction: 1 | -1) => {
+    const next = Math.min(Math.max(volume + direction * VOLUME_STEP, 0), 100);
+    setVolume(next);
+    player.current?.setVolume(next);
+  };
+
+  const adjustNowPlayingWheel = (direction: 1 | -1) => {
+    if (nowPlayingWheelMode === 'scrub') handleScrub(direction);
+    if (nowPlayingWheelMode === 'volume') handleVolumeChange(direction);
+    if (nowPlayingWheelMode === 'rating') adjustCurrentSongRating(direction);
+    if (nowPlayingWheelMode === 'lyrics') moveLyricsCursor(direction);
+  };
+
+  const handleAddToOnTheGo = (song: Song) => {
+    if (onTheGo.some(s => s.id === song.id)) {
+      showToast('Already in On-The-Go');
+      return;
+    }
+    setOnTheGo(prev => [...prev, song]);
+    showToast('Added to On-The-Go');
+  };
+  
+  const handleLibrarySelection = (index: number) => {
+    setSelectedIndex(index);
+    const selectedItem = libraryMenuItems[index];
+    if (selectedItem === 'Export Library') {
+      triggerVibration(100);
+      downloadLibraryExport(createLibraryExport(playlists, { theme, inputBindings, appSettings: settings }));
+    }
+    if (selectedItem === 'Import Library') {
+      importFileInput.current?.click();
+    }
+  };
+
+  const handleSettingsSelection = (index: number) => {
+    setSelectedIndex(index);
+    const selectedItem = settingsItems[index];
+    if (selectedItem === 'SKIN') {
+      setNavigation(prev => pushScreen(prev, 'skins', {}, Math.max(skins.indexOf(selectedSkin), 0)));
+    } else if (selectedItem === 'RESET_SETTINGS') {
+      openScreen('reset-settings-confirm');
+    } else if (selectedItem) {
+      // The option list opens on the current value.
+      const current = getSettingOptions(selectedItem).findIndex(option => option.value === settings[selectedItem]);
+      setNavigation(prev => pushScreen(prev, 'setting-choice', { settingKey: selectedItem }, Math.max(current, 0)));
+    }
+  };
+
+  const handleSettingChoiceSelection = (index: number) => {
+    const option = settingOptions[index];
+    if (!settingChoiceKey || !option) return;
+    setSettings(prev => ({ ...prev, [settingChoiceKey]: option.value }));
+    // Defaults only apply to what starts fresh, so a changed default takes effect right away when nothing is playing.
+    if (!currentSong && settingChoiceKey === 'defaultPlaybackMode') setPlaybackMode(option.value as PlaybackMode);
+    if (!currentSong && settingChoiceKey === 'defaultRepeatMode') setRepeatMode(option.value as RepeatMode);
+    goBack();
+  };
+
+  // Puts every preference back to how the app ships, including the skin and the controls. Imported skins stay available.
+  const handleResetSettings = () => {
+    triggerVibration(100);
+    setSettings(DEFAULT_SETTINGS);
+    setTheme(DEFAULT_SKIN_ID);
+    setInputBindings(DEFAULT_INPUT_BINDINGS);
+    if (!currentSong) {
+      setPlaybackMode(DEFAULT_SETTINGS.defaultPlaybackMode);
+      setRepeatMode(DEFAULT_SETTINGS.defaultRepeatMode);
+    }
+    goBack();
+    showToast('Settings reset');
+  };
+
+  const handleSkinSelection = (index: number) => {
+    setSelectedIndex(index);
+    if (skinItems[index] === 'IMPORT_SKIN') {
+      skinFileInput.current?.click();
+      return;
+    }
+    const skin = skins[index];
+    if (!skin) return;
+    triggerVibration(100);
+    setTheme(skin.id);
+    goBack();
+  };
+
+  // Only imported skins can be removed; the selection falls back to Classic White if it was the one in use.
+  const handleRemoveSkin = (index: number) => {
+    const skin = skins[index];
+    if (!skin || !customSkins.includes(skin)) return;
+    triggerVibration(100);
+    setCustomSkins(prev => prev.filter(s => s !== skin));
+    if (theme === skin.id) setTheme(DEFAULT_SKIN_ID);
+    setSelectedIndex(Math.min(index, skins.length - 2));
+    showToast(`Removed ${skin.name}`);
+  };
+
+  const handleSkinFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { skins: updatedSkins, added } = addCustomSkin(customSkins, parseSkinFile(await file.text()));
+      setCustomSkins(updatedSkins);
+      setTheme(added.id);
+      setSelectedIndex(BUILT_IN_SKINS.length + updatedSkins.indexOf(added));
+      showToast(`Added ${added.name}`);
+    } catch (error) {
+      triggerVibration([100, 50, 100]);
+      if (error instanceof SkinImportError) {
+        alert(`Could not import skin: ${error.message}`);
+      } else {
+        console.error("Failed to read skin file", error);
+        alert('Could not read the skin file.');
+      }
+    }
+  };
+
+  const handleImportFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const libraryExport = parseLibraryExport(await file.text());
+      setPendingImport(libraryExport);
+      openScreen('import-confirm');
+    } catch (error) {
+      triggerVibration([100, 50, 100]);
+      if (error instanceof LibraryImportError) {
+        alert(`Could not import library: ${error.message}`);
+      } else {
+        console.error("Failed to read library file", error);
+        alert('Could not read the library file.');
       }
-      if (view === 'shuffle-confirm') setView('playlist-view');
-      setSelectedIndex(0);
     }
   };
-  
-  const handleSelectPlaylistForSongSelection = (index: number) => {
+
+  const handleImportConfirmSelection = async (index: number) => {
     setSelectedIndex(index);
-    const selection = [...playlists, {id: 'new', name: 'Create New Playlist', songs:[]}][index];
-    if (selection.id === 'new') {
-        setView('create-playlist-input');
-    } else if (tempSong) {
-        addSongToPlaylist(selection.id, tempSong);
+    const selectedOption = importOptions[index];
+    if (!pendingImport || selectedOption === 'Cancel') {
+      setPendingImport(null);
+      goBack();
+      return;
+    }
+
+    triggerVibration(100);
+    const storedAudioFileIds = new Set(await libraryStorePromise
+      .then(store => store.listAudioFileIds())
+      .catch(error => {
+        console.error("Failed to list stored audio files", error);
+        return [];
+      }));
+    if (selectedOption === 'Merge Into Library') {
+      const { playlists: mergedPlaylists, report } = mergeLibraries(playlists, pendingImport.playlists, storedAudioFileIds);
+      setPlaylists(mergedPlaylists);
+      setImportReport(report);
+      setNavigation(prev => replaceScreen(prev, 'import-report'));
+    } else {
+      // Replacing also restores the exported settings, since the file is a full backup.
+      const { playlists: importedPlaylists, dropped } = dropMissingLocalSongs(pendingImport.playlists, storedAudioFileIds);
+      setPlaylists(importedPlaylists);
+      if (dropped > 0) showToast(`${dropped} local songs skipped: their files aren't on this device`);
+      setTheme(pendingImport.settings.theme);
+      setInputBindings(pendingImport.settings.inputBindings);
+      setSettings(pendingImport.settings.appSettings);
+      setPlayQueue(null);
+      setHistory(EMPTY_HISTORY);
+      // The screens underneath may point at playlists that no longer exist.
+      setNavigation(prev => pushScreen(popToRoot(prev), 'playlists'));
     }
+    setPendingImport(null);
   };
 
-  const handleNowPlayingSelection = (index: number) => {
+  const handleControlsSelection = (index: number) => {
     setSelectedIndex(index);
-    const selectedAction = nowPlayingMenuItems[index];
-    switch(selectedAction) {
-        case 'prev': handlePrevTrack(); break;
-        case 'play-pause': handlePlayPause(); break;
-        case 'next': handleNextTrack(); break;
-        case 'playback-mode':
-            setPlaybackMode(prev => prev === 'video' ? 'audio' : 'video');
-            break;
-        case 'repeat-mode':
-            setRepeatMode(prev => {
-                if (prev === 'off') return 'all';
-                if (prev === 'all') return 'one';
-                return 'off';
-            });
-            break;
+    const selectedItem = controlsItems[index];
+    if (selectedItem === 'RESET_BINDINGS') {
+      triggerVibration(100);
+      setInputBindings(DEFAULT_INPUT_BINDINGS);
+    } else if (selectedItem) {
+      setRebindingAction(selectedItem);
     }
   };
-  
+
+  const handleBindingCaptured = (input: CapturedInput) => {
+    if (!rebindingAction) return;
+    if (input.type === 'key' && input.key === 'Escape') {
+      setRebindingAction(null);
+      return;
+    }
+    const conflict = input.type === 'key'
+      ? findKeyConflict(inputBindings, rebindingAction, input.key)
+      : findButtonConflict(inputBindings, rebindingAction, input.button);
+    if (conflict) {
+      // Taking another action's only key would leave that action unreachable.
+      triggerVibration([100, 50, 100]);
+      const name = input.type === 'key' ? describeKey(input.key) : describeButton(input.button);
+      showToast(`${name} is the only binding for ${WHEEL_ACTION_LABELS[conflict]}`);
+      return;
+    }
+    triggerVibration(100);
+    setInputBindings(prev => input.type === 'key'
+      ? rebindKey(prev, rebindingAction, input.key)
+      : rebindButton(prev, rebindingAction, input.button));
+    setRebindingAction(null);
+  };
+
   const handleCenterLongPress = () => {
-    if (view === 'playlist-view' && activePlaylist) {
+    if (view === 'now-playing' && currentSong) {
+        handleAddToOnTheGo(currentSong);
+        return;
+    }
+    if (view === 'skins') {
+        handleRemoveSkin(selectedIndex);
+        return;
+    }
+    if (view === 'music-songs' && musicCollection?.songs[selectedIndex]) {
+        handleAddToOnTheGo(musicCollection.songs[selectedIndex]);
+        return;
+    }
+    if (view === 'playlist-view' && activePlaylist && hasFixedSongs) {
         const selectedItem = playlistViewItems[selectedIndex];
         if (selectedItem && selectedItem.id !== 'SHUFFLE_PLAYLIST' && selectedItem.id !== 'DELETE_PLAYLIST') {
             const songIndex = activePlaylist.songs.findIndex(s => s.id === selectedItem.id);
             if (songIndex !== -1) {
-                setSelectedSongIndex(songIndex);
-                setView('delete-song-confirm');
-                setSelectedIndex(0);
+                openScreen('delete-song-confirm', { songIndex });
             }
         }
     }
   };
   
-  const handleAddSongUrl = () => {
-    const videoId = getYouTubeId(urlInput);
-    if (videoId) {
-      triggerVibration(100);
-      const newSong: Song = { id: videoId, title: `Song: ${videoId}` };
-      setTempSong(newSong);
-      setView('select-playlist-for-song');
-      setUrlInput('');
-      setSelectedIndex(0);
-    } else {
+  const handleAddSongUrl = (text: string = urlInput) => {
+    const entries = parseSongList(text);
+    const validSongs = entries.flatMap(e => e.song ? [e.song] : []);
+
+    if (entries.length === 0 || (entries.length === 1 && validSongs.length === 0)) {
+      triggerVibration([100, 50, 100]);
+      alert(entries.length === 0 ? 'No YouTube URLs found' : 'Invalid YouTube URL');
+      return;
+    }
+
+    triggerVibration(100);
+    setSongListEntries(entries);
+    setPendingSongs(validSongs);
+    // A single clean URL goes straight to the playlist picker, as before bulk adding existed.
+    openScreen(entries.length === 1 ? 'select-playlist-for-song' : 'bulk-add-review');
+  };
+
+  const addSongsFromFile = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (error) {
+      console.error("Failed to read song list file", error);
+      triggerVibration([100, 50, 100]);
+      alert('Could not read the file.');
+      return;
+    }
+    setUrlInput(text);
+    handleAddSongUrl(text);
+  };
+
+  const handleSongListFileChosen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) addSongsFromFile(file);
+  };
+
+  const handleAudioFilesAdded = async (files: File[]) => {
+    if (files.length === 0) return;
+    if (!(await libraryStorePromise).supportsAudioFiles) {
+      triggerVibration([100, 50, 100]);
+      alert("Local audio files can't be kept in this browser, because it doesn't support IndexedDB.");
+      return;
+    }
+    const { entries, files: audioFiles } = await importLocalAudioFiles(files);
+    const validSongs = entries.flatMap(e => e.song ? [e.song] : []);
+    if (validSongs.length === 0) {
+      triggerVibration([100, 50, 100]);
+      alert(files.length === 1 ? "This file can't be played in this browser" : "None of these files can be played in this browser");
+      return;
+    }
+
+    triggerVibration(100);
+    pendingAudioFiles.current = new Map(audioFiles.map(file => [file.id, file]));
+    setSongListEntries(entries);
+    setPendingSongs(validSongs);
+    openScreen(entries.length === 1 ? 'select-playlist-for-song' : 'bulk-add-review');
+  };
+
+  const handleAudioFilesChosen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files ? Array.from<File>(e.target.files) : [];
+    e.target.value = '';
+    handleAudioFilesAdded(files);
+  };
+
+  // Dropped audio files are added as local songs; anything else is read as a song list.
+  const handleAddSongDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const files = Array.from<File>(e.dataTransfer.files);
+    if (files.length === 0) return;
+    if (files.some(isAudioFile)) {
+      handleAudioFilesAdded(files.filter(isAudioFile));
+      return;
+    }
+    addSongsFromFile(files[0]);
+  };
+
+  // Local songs only keep their file once they land in a playlist, and only land there once it's kept.
+  const storePendingAudioFiles = async (songs: Song[]): Promise<boolean> => {
+    const files = songs.flatMap(song => pendingAudioFiles.current.get(song.id) ?? []);
+    if (files.length === 0) return true;
+    try {
+      await (await libraryStorePromise).saveAudioFiles(files);
+      return true;
+    } catch (error) {
+      console.error("Failed to store audio files", error);
       triggerVibration([100, 50, 100]);
-      alert('Invalid YouTube URL');
+      alert(error instanceof Error ? error.message : "Couldn't store the audio files.");
+      return false;
+    }
+  };
+
+  const handleBulkAddReviewSelection = (index: number) => {
+    setSelectedIndex(index);
+    if (bulkAddReviewItems[index] === 'Edit List') {
+      setSongListEntries([]);
+      setPendingSongs([]);
+      goBack();
+    } else {
+      openScreen('select-playlist-for-song');
     }
   };
+
+  const clearPendingSongs = () => {
+    pendingAudioFiles.current.clear();
+    setPendingSongs([]);
+    setSongListEntries([]);
+    setUrlInput('');
+  };
   
-  const addSongToPlaylist = (playlistId: string, song: Song) => {
+  const addSongsToPlaylist = async (playlistId: string, songs: Song[]) => {
+    if (!(await storePendingAudioFiles(songs))) return;
     triggerVibration(100);
-    setPlaylists(prev => prev.map(p => p.id === playlistId ? { ...p, songs: [...p.songs, song] } : p));
-    setTempSong(null);
-    setActivePlaylistId(playlistId);
-    setView('playlist-view');
-    setSelectedIndex(playlists.find(p => p.id === playlistId)?.songs.length || 0);
+    // Songs the playlist already has are skipped rather than added twice.
+    setPlaylists(prev => prev.map(p => {
+      if (p.id !== playlistId) return p;
+      const existingIds = new Set(p.songs.map(s => s.id));
+      return { ...p, songs: [...p.songs, ...markSongsAdded(songs.filter(s => !existingIds.has(s.id)))] };
+    }));
+    clearPendingSongs();
+    // The adding screens close, so Menu from the playlist goes back to where adding started.
+    const selectedIndex = playlists.find(p => p.id === playlistId)?.songs.length || 0;
+    setNavigation(prev => finishFlow(prev, 'add-song', 'playlist-view', { playlistId }, selectedIndex));
   }
 
-  const handleCreatePlaylist = () => {
+  const handleCreatePlaylist = async () => {
     if (newPlaylistName.trim()) {
+        if (!(await storePendingAudioFiles(pendingSongs))) return;
         triggerVibration(100);
         const newPlaylist: Playlist = {
             id: Date.now().toString(),
             name: newPlaylistName,
-            songs: tempSong ? [tempSong] : []
+            songs: markSongsAdded(pendingSongs)
         };
         
         const updatedPlaylists = [...playlists, newPlaylist].sort((a, b) => 
@@ -558,71 +2217,133 @@ const App: React.FC = () => {
         setPlaylists(updatedPlaylists);
         
         setNewPlaylistName('');
-        setTempSong(null);
+        clearPendingSongs();
+        if (isSavingOnTheGo) {
+            // Saving hands the songs over to the new playlist, leaving On-The-Go empty for the next session.
+            setOnTheGo([]);
+            setIsSavingOnTheGo(false);
+        }
 
-        if (tempSong) {
-            setActivePlaylistId(newPlaylist.id);
-            setView('playlist-view');
-            setSelectedIndex(0);
+        if (pendingSongs.length > 0) {
+            const flowView = isSavingOnTheGo ? 'create-playlist-input' : 'add-song';
+            setNavigation(prev => finishFlow(prev, flowView, 'playlist-view', { playlistId: newPlaylist.id }));
         } else {
-            setView('playlists');
             const newIndex = updatedPlaylists.findIndex(p => p.id === newPlaylist.id);
-            setSelectedIndex(newIndex >= 0 ? newIndex : 0);
+            goBack(newIndex >= 0 ? builtInPlaylists.length + newIndex : 0);
         }
     }
   };
 
+  const showToast = (message: string, undoable = false) => {
+    if (toastTimeout.current) clearTimeout(toastTimeout.current);
+    setToast({ message, undoable });
+    toastTimeout.current = setTimeout(() => setToast(null), 5000);
+  };
+
+  // Rebuilds the path to where the edit was made, so Menu still leads back up through Playlists.
+  const restoreNavigationContext = (context: NavigationContext) => {
+    setPlaylistSearchQuery('');
+    setNavigation(prev => {
+      const toPlaylists = pushScreen(popToRoot(prev), 'playlists');
+      if (context.view !== 'playlist-view' || !context.activePlaylistId) return setScreenSelection(toPlaylists, context.selectedIndex);
+      const playlistIndex = [...builtInPlaylists, ...libraryPlaylists].findIndex(p => p.id === context.activePlaylistId);
+      return pushScreen(setScreenSelection(toPlaylists, Math.max(playlistIndex, 0)), 'playlist-view', { playlistId: context.activePlaylistId }, context.selectedIndex);
+    });
+  };
+
+  /** Runs (unless `alreadyApplied`) and records an undoable library edit. */
+  const performLibraryCommand = (command: LibraryCommand, label: string, context: NavigationContext, alreadyApplied = false) => {
+    if (!alreadyApplied) setPlaylists(prev => applyLibraryCommand(prev, command));
+    setHistory(prev => pushHistoryEntry(prev, { command, label, context }));
+    showToast(`${label} · Tap to Undo`, true);
+  };
+
+  const handleUndo = () => {
+    const entry = history.undo[history.undo.length - 1];
+    if (!entry) return;
+    triggerVibration(100);
+    setPlaylists(prev => applyLibraryCommand(prev, invertLibraryCommand(entry.command)));
+    setHistory(prev => ({ undo: prev.undo.slice(0, -1), redo: [...prev.redo, entry] }));
+    restoreNavigationContext(entry.context);
+    showToast(`Undid ${entry.label}`);
+  };
+
+  const handleRedo = () => {
+    const entry = history.redo[history.redo.length - 1];
+    if (!entry) return;
+    triggerVibration(100);
+    setPlaylists(prev => applyLibraryCommand(prev, entry.command));
+    setHistory(prev => ({ undo: [...prev.undo, entry], redo: prev.redo.slice(0, -1) }));
+    restoreNavigationContext(entry.context);
+    showToast(`Redid ${entry.label}`);
+  };
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y redoes; text fields keep their own undo.
+  const historyShortcuts = useRef({ handleUndo, handleRedo });
+  historyShortcuts.current = { handleUndo, handleRedo };
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        historyShortcuts.current.handleUndo();
+      } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        historyShortcuts.current.handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const handleDeleteSong = () => {
       if (activePlaylistId === null || selectedSongIndex === null) return;
+      const song = activePlaylist?.songs[selectedSongIndex];
+      if (!activePlaylist || !song) return;
       triggerVibration(100);
-      setPlaylists(prev => prev.map(p => {
-          if (p.id === activePlaylistId) {
-              const newSongs = [...p.songs];
-              newSongs.splice(selectedSongIndex, 1);
-              return { ...p, songs: newSongs };
-          }
-          return p;
-      }));
-      setView('playlist-view');
-      setSelectedSongIndex(null);
-      setSelectedIndex(0);
+      performLibraryCommand(
+        { type: 'delete-song', playlistId: activePlaylistId, index: selectedSongIndex, song },
+        'Delete Song',
+        { view: 'playlist-view', activePlaylistId, selectedIndex: selectedSongIndex + 1 }
+      );
+      // The row below moves up into the deleted song's place.
+      const remaining = activePlaylist.songs.length - 1;
+      setNavigation(prev => popToScreen(prev, 'playlist-view', Math.min(selectedSongIndex + 1, remaining)));
   }
 
   const handleDeletePlaylist = () => {
-      if (!playlistToDeleteId) return;
+      const index = playlists.findIndex(p => p.id === activePlaylistId);
+      if (index === -1) return;
       triggerVibration(100);
-      setPlaylists(prev => prev.filter(p => p.id !== playlistToDeleteId));
-      setView('playlists');
-      setPlaylistToDeleteId(null);
-      setSelectedIndex(0);
+      performLibraryCommand(
+        { type: 'delete-playlist', index, playlist: playlists[index] },
+        'Delete Playlist',
+        { view: 'playlists', activePlaylistId: null, selectedIndex: builtInPlaylists.length + index }
+      );
+      setNavigation(prev => popToScreen(prev, 'playlists', builtInPlaylists.length + index));
   }
 
+  // Starts the playlist in shuffled order; the playlist's own order is left untouched.
   const handleShufflePlaylist = () => {
-    if (!activePlaylistId) return;
+    if (!activePlaylist) return;
     triggerVibration(100);
-    
-    setPlaylists(prev => {
-        return prev.map(p => {
-            if (p.id === activePlaylistId) {
-                const songsToShuffle = [...p.songs];
-                // Fisher-Yates shuffle algorithm
-                for (let i = songsToShuffle.length - 1; i > 0; i--) {
-                    const j = Math.floor(Math.random() * (i + 1));
-                    [songsToShuffle[i], songsToShuffle[j]] = [songsToShuffle[j], songsToShuffle[i]];
-                }
-                return { ...p, songs: songsToShuffle };
-            }
-            return p;
-        });
-    });
+    setShuffleMode('songs');
+    startPlayback(activePlaylist, null, true);
+  };
 
-    setNowPlaying({ playlistId: activePlaylistId, songIndex: 0 });
-    setView('now-playing');
+  const handleToggleShuffle = () => {
+    const nextMode: ShuffleMode = shuffleMode === 'off' ? 'songs' : 'off';
+    setShuffleMode(nextMode);
+    if (activeQueue && queuePlaylist) {
+      setPlayQueue(setQueueShuffled(activeQueue, queuePlaylist, nextMode === 'songs'));
+    }
   };
 
   const handleDragStart = (itemIndexInView: number) => {
     const songIndex = itemIndexInView - (activePlaylist && activePlaylist.songs.length > 0 ? 1 : 0);
     setDraggedItemIndex(songIndex);
+    dragOriginIndex.current = songIndex;
   };
   
   const handleDragEnter = (itemIndexInView: number) => {
@@ -646,34 +2367,226 @@ const App: React.FC = () => {
   };
 
   const handleDragEnd = () => {
+    // The drag already reordered the playlist live; record the whole drag as one undoable move.
+    const from = dragOriginIndex.current;
+    if (from !== null && draggedItemIndex !== null && from !== draggedItemIndex && activePlaylistId) {
+      performLibraryCommand(
+        { type: 'move-song', playlistId: activePlaylistId, from, to: draggedItemIndex },
+        'Move Song',
+        { view: 'playlist-view', activePlaylistId, selectedIndex: from + 1 },
+        true
+      );
+    }
+    dragOriginIndex.current = null;
     setDraggedItemIndex(null);
     setDragOverIndex(null);
   };
 
+  // Watching a video keeps the screen lit.
+  const keepBacklightOn = settings.backlightSeconds === null || (view === 'now-playing' && playbackMode === 'video' && isPlaying);
+  const restartBacklightTimer = useCallback(() => {
+    backlightTimers.current.forEach(clearTimeout);
+    backlightTimers.current = [];
+    setBacklight('on');
+    if (keepBacklightOn || settings.backlightSeconds === null) return;
+    const idleMs = settings.backlightSeconds * 1000;
+    backlightTimers.current = [
+      setTimeout(() => setBacklight('dim'), idleMs),
+      setTimeout(() => setBacklight('off'), idleMs + BACKLIGHT_DIM_MS),
+    ];
+  }, [keepBacklightOn, settings.backlightSeconds]);
+
+  useEffect(() => {
+    restartBacklightTimer();
+    return () => backlightTimers.current.forEach(clearTimeout);
+  }, [restartBacklightTimer]);
+
+  // Wheel input does nothing while Hold is on, and only wakes the screen while the backlight is off.
+  const acceptWheelInput = () => {
+    if (isHoldOn) return false;
+    const wasOff = backlight === 'off' || wakingPress.current;
+    restartBacklightTimer();
+    return !wasOff;
+  };
+
+  const guardWheelInput = (handler: () => void) => () => {
+    if (acceptWheelInput()) handler();
+  };
+
+  const handleDevicePointerDown = () => {
+    if (isHoldOn) return;
+    wakingPress.current = backlight === 'off';
+    restartBacklightTimer();
+  };
+
+  // Taps on the screen and wheel buttons go through here first, so Hold and a dark screen can stop them.
+  const handleDeviceClickCapture = (e: React.MouseEvent) => {
+    const isHoldSwitch = e.target instanceof Element && !!e.target.closest('[data-hold-switch]');
+    if (isHoldSwitch || (!isHoldOn && !wakingPress.current)) return;
+    e.stopPropagation();
+    e.preventDefault();
+    if (isHoldOn) showToast('Hold is on');
+    wakingPress.current = false;
+  };
+
+  // The click, if the press makes one, comes after pointerup, so the flag is kept until it has been handled.
+  const handleDevicePointerUp = () => {
+    if (wakingPress.current) setTimeout(() => { wakingPress.current = false; });
+  };
+
+  const handleHoldToggle = () => {
+    triggerVibration();
+    setIsHoldOn(prev => !prev);
+    restartBacklightTimer();
+  };
+
+  const handleWheelAction = (action: WheelAction) => {
+    if (!acceptWheelInput()) return;
+    switch (action) {
+      case 'menu': handleMenu(); break;
+      case 'menu-long-press': triggerVibration(100); handleMenuLongPress(); break;
+      case 'center': handleCenterClick(); break;
+      case 'center-long-press': triggerVibration(100); handleCenterLongPress(); break;
+      case 'next': handleNext(); break;
+      case 'prev': handlePrev(); break;
+      case 'play-pause': handlePlayPause(); break;
+    }
+  };
+
+  useInputBindings(inputBindings, handleWheelAction, rebindingAction ? handleBindingCaptured : null);
+
   const renderView = () => {
+    if (!isLibraryLoaded) return <Screen header="FLEX">Loading...</Screen>;
     switch (view) {
       case 'main-menu':
         return (
           <Screen header="FLEX">
-            <ul className="p-1 space-y-1">{menuItems.map((item, i) => <li key={item} onClick={() => handleMainMenuSelection(i)} className={`px-3 py-2 font-semibold transition-colors cursor-pointer rounded-md ${selectedIndex === i ? 'bg-blue-600 text-white' : 'hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}>{item}</li>)}</ul>
+            <ul className="p-1 space-y-1">{menuItems.map((item, i) => <li key={item} onClick={() => handleMainMenuSelection(i)} className={`px-3 py-2 font-semibold transition-colors cursor-pointer rounded-md ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>{t(item)}</li>)}</ul>
           </Screen>
         );
       case 'playlists':
         return (
-          <Screen header="Playlists">
-            <div className="p-2 border-b border-zinc-200 dark:border-zinc-800">
+          <Screen header={t('Playlists')}>
+            <div className="p-2 border-b border-skin-divider">
                 <input
                     type="text"
                     placeholder="Search playlists..."
                     value={playlistSearchQuery}
-                    onChange={(e) => setPlaylistSearchQuery(e.target.value)}
-                    className="w-full p-1.5 border rounded-md bg-white dark:bg-zinc-700 dark:text-white dark:border-zinc-600 text-black text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors"
+                    onChange={(e) => { setPlaylistSearchQuery(e.target.value); setSelectedIndex(0); }}
+                    className="w-full p-1.5 border rounded-md bg-skin-field text-skin-screen-text border-skin-divider text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors"
                     aria-label="Search playlists"
                 />
             </div>
             <ul className="p-1 space-y-1">
-              {playlistMenuItems.map((p, i) => <li key={p.id} onClick={() => handlePlaylistsSelection(i)} className={`px-3 py-2 font-semibold transition-colors cursor-pointer rounded-md flex justify-between items-center ${selectedIndex === i ? 'bg-blue-600 text-white' : 'hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}><span>{p.name}</span> <ChevronRightIcon className="w-5 h-5"/></li>)}
-              {playlistMenuItems.length === 1 && <li className="p-4 text-gray-500 text-center">No playlists found.</li>}
+              {playlistMenuItems.map((p, i) => <li key={p.id} onClick={() => handlePlaylistsSelection(i)} className={`px-3 py-2 font-semibold transition-colors cursor-pointer rounded-md flex justify-between items-center ${p.readOnly && selectedIndex !== i ? 'text-skin-highlight' : ''} ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}><span>{p.name}{p.smart && <span className="ml-2 px-1 text-[10px] uppercase border rounded align-middle">Smart</span>}</span> <ChevronRightIcon className="w-5 h-5"/></li>)}
+              {playlistItems.length === 0 && <li className="p-4 text-skin-muted text-center">No playlists found.</li>}
+            </ul>
+          </Screen>
+        );
+      case 'music':
+        return (
+          <Screen header={t('Music')}>
+            <ul className="p-1 space-y-1">{musicMenuItems.map((item, i) => <li key={item} onClick={() => handleMusicSelection(i)} className={`px-3 py-2 font-semibold transition-colors cursor-pointer rounded-md flex justify-between items-center ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}><span>{t(item)}</span> <ChevronRightIcon className="w-5 h-5"/></li>)}</ul>
+          </Screen>
+        );
+      case 'music-artists':
+      case 'music-albums':
+        const musicGroups = view === 'music-artists' ? musicLibrary.artists : musicLibrary.albums;
+        return (
+          <Screen header={t(view === 'music-artists' ? 'Artists' : 'Albums')}>
+            {musicGroups.length === 0 && <p className="p-4 text-center text-skin-muted">No songs yet.</p>}
+            <ul className="p-1 space-y-1">
+              {musicGroups.map((group, i) => (
+                <li key={group.id} ref={selectedIndex === i ? scrollSelectedIntoView : undefined} onClick={() => handleMusicGroupSelection(i)} className={`px-3 py-1.5 transition-colors cursor-pointer rounded-md flex justify-between items-center ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>
+                  <span className="min-w-0">
+                    <span className="block font-semibold truncate">{group.name}</span>
+                    <span className={`block text-xs truncate ${selectedIndex === i ? 'text-skin-highlight-text opacity-80' : 'text-skin-muted'}`}>{group.detail}</span>
+                  </span>
+                  <ChevronRightIcon className="w-5 h-5 flex-shrink-0"/>
+                </li>
+              ))}
+            </ul>
+          </Screen>
+        );
+      case 'cover-flow':
+        return (
+          <Screen header="Cover Flow">
+            {musicLibrary.coverFlowAlbums.length === 0
+              ? <p className="p-4 text-center text-skin-muted">No albums yet.</p>
+              : <CoverFlow
+                  albums={musicLibrary.coverFlowAlbums}
+                  selectedIndex={selectedIndex}
+                  trackIndex={coverFlowTrackIndex}
+                  onCoverClick={handleCoverFlowCoverClick}
+                  onTrackClick={handleCoverFlowTrackClick}
+                  loadArtwork={loadSongArtwork}
+                />}
+          </Screen>
+        );
+      case 'music-songs':
+        if (!musicCollection) return <Screen header="Error">Songs not found</Screen>;
+        return (
+          <Screen header={musicCollection.name}>
+            {musicCollection.songs.length === 0 && <p className="p-4 text-center text-skin-muted">No songs yet.</p>}
+            <ul className="p-1 space-y-1">
+              {musicCollection.songs.map((song, i) => {
+                const { title, artist } = getSongCredits(song);
+                return (
+                  <li key={song.id} ref={selectedIndex === i ? scrollSelectedIntoView : undefined} onClick={() => handleMusicSongSelection(i)} className={`px-3 py-1.5 transition-colors cursor-pointer rounded-md ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>
+                    <span className="block font-semibold truncate">{title}</span>
+                    <span className={`block text-xs truncate ${selectedIndex === i ? 'text-skin-highlight-text opacity-80' : 'text-skin-muted'}`}>{artist}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          </Screen>
+        );
+      case 'music-search':
+        const searchKeyLabels: Record<string, string> = { ' ': 'Space', DELETE: '⌫', DONE: 'Done' };
+        // A window of keys around the selected one, like the iPod's search strip.
+        const visibleSearchKeys = [-3, -2, -1, 0, 1, 2, 3].map(offset => (selectedIndex + offset + SEARCH_KEYS.length) % SEARCH_KEYS.length);
+        return (
+          <Screen header={t('Search')}>
+            <div className="p-2 flex flex-col h-full">
+              <div className="px-2 py-1.5 border rounded-md bg-skin-field border-skin-divider text-sm truncate">
+                {musicSearchQuery || <span className="text-skin-muted">Turn the wheel to pick letters</span>}
+              </div>
+              <ul className="flex-grow py-1 text-sm space-y-0.5 overflow-hidden">
+                {musicSearchResultItems.slice(0, 4).map(result => (
+                  <li key={`${result.isPlaylist ? 'playlist' : 'song'}-${result.id}`} className="px-2 truncate">
+                    {result.title} <span className="text-xs text-skin-muted">{result.detail}</span>
+                  </li>
+                ))}
+                {musicSearchQuery.trim() && musicSearchResultItems.length === 0 && <li className="px-2 text-skin-muted">No matches.</li>}
+              </ul>
+              <div className="flex items-center justify-center space-x-1 border-t border-skin-divider pt-2">
+                {visibleSearchKeys.map(keyIndex => {
+                  const key = SEARCH_KEYS[keyIndex];
+                  return (
+                    <button key={key} onClick={() => handleMusicSearchKey(keyIndex)} className={`min-w-[1.75rem] px-1 py-1 rounded-md font-semibold text-sm ${keyIndex === selectedIndex ? 'bg-skin-highlight text-skin-highlight-text text-base' : 'text-skin-muted'}`}>
+                      {searchKeyLabels[key] ?? key}
+                    </button>
+                  );
+                })}
+              </div>
+              {musicSearchQuery.trim() && <p className="text-xs text-center text-skin-muted pt-1">{musicSearchResultItems.length} results · pick Done to browse them</p>}
+            </div>
+          </Screen>
+        );
+      case 'music-search-results':
+        return (
+          <Screen header={`“${musicSearchQuery.trim()}”`}>
+            {musicSearchResultItems.length === 0 && <p className="p-4 text-center text-skin-muted">No matches.</p>}
+            <ul className="p-1 space-y-1">
+              {musicSearchResultItems.map((result, i) => (
+                <li key={`${result.isPlaylist ? 'playlist' : 'song'}-${result.id}`} ref={selectedIndex === i ? scrollSelectedIntoView : undefined} onClick={() => handleMusicSearchResultSelection(i)} className={`px-3 py-1.5 transition-colors cursor-pointer rounded-md flex justify-between items-center ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>
+                  <span className="min-w-0">
+                    <span className="block font-semibold truncate">{result.title}</span>
+                    <span className={`block text-xs truncate ${selectedIndex === i ? 'text-skin-highlight-text opacity-80' : 'text-skin-muted'}`}>{result.detail}</span>
+                  </span>
+                  {result.isPlaylist && <ChevronRightIcon className="w-5 h-5 flex-shrink-0"/>}
+                </li>
+              ))}
             </ul>
           </Screen>
         );
@@ -684,22 +2597,23 @@ const App: React.FC = () => {
           <Screen header={activePlaylist.name}>
              <ul className="p-1 space-y-1" onDragLeave={() => setDragOverIndex(null)}>
                 {playlistViewItems.map((item, i) => {
-                  const isSong = item.id !== 'SHUFFLE_PLAYLIST' && item.id !== 'DELETE_PLAYLIST';
+                  const isSong = item.id !== 'SHUFFLE_PLAYLIST' && item.id !== 'EDIT_RULES' && item.id !== 'DELETE_PLAYLIST';
                   const songIndex = hasSongs ? i - 1 : -1;
                   
-                  const isDraggable = isSong && hasSongs && activePlaylist.songs.length > 1;
+                  const isDraggable = isSong && hasSongs && activePlaylist.songs.length > 1 && hasFixedSongs;
                   const isBeingDragged = isSong && draggedItemIndex === songIndex;
                   const isDropTarget = isSong && dragOverIndex === songIndex && draggedItemIndex !== null && !isBeingDragged;
 
                   const classes = [
                     'px-3 py-2', 'transition-all', 'duration-200', 'rounded-md',
                     'cursor-pointer',
-                    item.id === 'DELETE_PLAYLIST' ? 'text-red-500 hover:bg-red-50 dark:hover:bg-red-900/50' : '',
-                    item.id === 'SHUFFLE_PLAYLIST' ? 'text-blue-600 font-bold hover:bg-blue-50 dark:hover:bg-blue-900/50' : '',
-                    selectedIndex === i ? 'bg-blue-600 text-white' : 'hover:bg-zinc-100 dark:hover:bg-zinc-800',
+                    item.id === 'DELETE_PLAYLIST' ? 'text-red-500 hover:bg-skin-hover' : '',
+                    item.id === 'SHUFFLE_PLAYLIST' ? 'text-blue-600 font-bold hover:bg-skin-hover' : '',
+                    item.id === 'EDIT_RULES' ? 'font-bold' : '',
+                    selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover',
                     isDraggable ? 'cursor-move' : '',
-                    isBeingDragged ? 'opacity-30 bg-gray-200' : '',
-                    isDropTarget ? 'border-t-4 border-blue-600' : 'border-t-transparent',
+                    isBeingDragged ? 'opacity-30 bg-skin-track' : '',
+                    isDropTarget ? 'border-t-4 border-skin-highlight' : 'border-t-transparent',
                   ].filter(Boolean).join(' ');
 
                   return (
@@ -718,7 +2632,7 @@ const App: React.FC = () => {
                   );
                 })}
                  {playlistViewItems.length <= 1 && (
-                     <li className="p-4 text-gray-500 text-center">This playlist is empty.</li>
+                     <li className="p-4 text-skin-muted text-center">This playlist is empty.</li>
                  )}
               </ul>
           </Screen>
@@ -728,46 +2642,195 @@ const App: React.FC = () => {
         if (!songForMenu) return <Screen header="Error">Song not found.</Screen>;
         return (
             <Screen header={songForMenu.title}>
-                 <ul className="p-1 space-y-1 cursor-pointer">{['Play'].map((item, i) => <li key={item} onClick={() => handleSongMenuSelection(i)} className={`px-3 py-2 font-semibold transition-colors rounded-md ${selectedIndex === i ? 'bg-blue-600 text-white' : 'hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}>{item}</li>)}</ul>
+                 <ul className="p-1 space-y-1 cursor-pointer">{songMenuItems.map((item, i) => <li key={item} onClick={() => handleSongMenuSelection(i)} className={`px-3 py-2 font-semibold transition-colors rounded-md ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>{item}</li>)}</ul>
+            </Screen>
+        );
+      case 'up-next':
+        return (
+            <Screen header={t('Up Next')}>
+                {upNext.length === 0 && <p className="p-4 text-center text-skin-muted">Up Next is empty.</p>}
+                <ul className="p-1 space-y-1 cursor-pointer">
+                  {upNextMenuItems.map((key, i) => {
+                    if (key === 'CLEAR_UP_NEXT') {
+                      return <li key={key} onClick={() => handleUpNextSelection(i)} className={`px-3 py-2 font-semibold transition-colors rounded-md text-red-500 ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>Clear Up Next</li>;
+                    }
+                    const item = upNext[i];
+                    const isMoving = isMovingUpNextItem && selectedIndex === i;
+                    return (
+                      <li key={key} onClick={() => handleUpNextSelection(i)} className={`px-3 py-2 transition-colors rounded-md flex justify-between items-center ${isMoving ? 'ring-2 ring-skin-highlight' : ''} ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>
+                        <span className="truncate">{resolveUpNextSong(item, playlists).title}</span>
+                        {isMoving && <span className="text-xs ml-2">↕</span>}
+                      </li>
+                    );
+                  })}
+                </ul>
+                {isMovingUpNextItem && <p className="text-xs text-center text-skin-muted p-2">Turn the wheel to move. Press the center button to drop.</p>}
+            </Screen>
+        );
+      case 'up-next-item-menu':
+        const upNextItemForMenu = upNextItemIndex !== null ? upNext[upNextItemIndex] : undefined;
+        if (!upNextItemForMenu) return <Screen header="Error">Song not found.</Screen>;
+        return (
+            <Screen header={resolveUpNextSong(upNextItemForMenu, playlists).title}>
+                <ul className="p-1 space-y-1 cursor-pointer">{upNextItemMenuItems.map((item, i) => <li key={item} onClick={() => handleUpNextItemMenuSelection(i)} className={`px-3 py-2 font-semibold transition-colors rounded-md ${item === 'Remove' ? 'text-red-500' : ''} ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>{item}</li>)}</ul>
+            </Screen>
+        );
+      case 'clip-editor':
+        const songForClip = activePlaylist?.songs[selectedSongIndex!];
+        if (!songForClip) return <Screen header="Error">Song not found.</Screen>;
+        const clipLabels: Record<typeof clipEditorItems[number], string> = {
+          start: 'Start',
+          end: 'End',
+          clear: 'Clear Clip Points',
+        };
+        const clipValues: Record<typeof clipEditorItems[number], string> = {
+          start: formatTime(editingClipPoint === 'start' ? clipEditValue : songForClip.startSeconds ?? 0),
+          end: editingClipPoint === 'end' ? formatTime(clipEditValue) : songForClip.endSeconds !== undefined ? formatTime(songForClip.endSeconds) : 'Song End',
+          clear: '',
+        };
+        return (
+            <Screen header="Clip Points">
+                <ul className="p-1 space-y-1 cursor-pointer">
+                  {clipEditorItems.map((item, i) => {
+                    const isEditing = editingClipPoint === item;
+                    return (
+                      <li key={item} onClick={() => handleClipEditorSelection(i)} className={`px-3 py-2 font-semibold transition-colors rounded-md flex justify-between items-center ${item === 'clear' ? 'text-red-500' : ''} ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>
+                        <span>{clipLabels[item]}</span>
+                        <span className={isEditing ? 'px-2 rounded bg-skin-highlight-text text-skin-highlight' : ''}>{clipValues[item]}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+                <p className="text-xs text-center text-skin-muted p-2">
+                  {editingClipPoint ? 'Turn the wheel to adjust. Press the center button to save.' : songForClip.title}
+                </p>
+            </Screen>
+        );
+      case 'smart-playlist-editor':
+        if (!smartDraft) return <Screen header="Error">Smart playlist not found.</Screen>;
+        const matchingSongCount = evaluateSmartPlaylist(smartDraft.rules, getLibrarySongs(playlists), listeningStats).length;
+        const getSmartEditorRow = (item: string): { label: string; value?: React.ReactNode } => {
+          const { rules } = smartDraft;
+          if (item === 'name') return {
+            label: 'Name',
+            value: <input ref={smartTextInput} type="text" value={smartDraft.name} onChange={e => setSmartDraft({ ...smartDraft, name: e.target.value })} onClick={e => e.stopPropagation()} placeholder="Smart Playlist" className="w-32 px-1 rounded bg-skin-field text-skin-screen-text text-sm outline-none focus:ring-2 focus:ring-blue-500" aria-label="Smart playlist name"/>,
+          };
+          if (item === 'match') return { label: 'Match', value: rules.match === 'all' ? 'All Rules' : 'Any Rule' };
+          if (item.startsWith('rule-')) return { label: describeSmartRule(rules.rules[Number(item.slice('rule-'.length))]), value: <ChevronRightIcon className="w-5 h-5"/> };
+          if (item === 'add-rule') return { label: '+ Add Rule' };
+          if (item === 'limit') return { label: 'Limit', value: rules.limit ?? 'None' };
+          if (item === 'sort') return { label: 'Sort By', value: SMART_PLAYLIST_SORT_LABELS[rules.sort] };
+          return { label: 'Save' };
+        };
+        return (
+            <Screen header={smartDraft.playlistId ? 'Edit Smart Playlist' : 'New Smart Playlist'}>
+                <ul className="p-1 space-y-1 cursor-pointer">
+                  {smartEditorItems.map((item, i) => {
+                    const { label, value } = getSmartEditorRow(item);
+                    const isAdjusting = adjustingSmartValue === 'limit' && item === 'limit';
+                    return (
+                      <li key={item} onClick={() => handleSmartEditorSelection(i)} className={`px-3 py-2 font-semibold transition-colors rounded-md flex justify-between items-center gap-2 ${item === 'save' ? 'text-blue-600' : ''} ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>
+                        <span className="truncate">{label}</span>
+                        {value !== undefined && <span className={isAdjusting ? 'px-2 rounded bg-skin-highlight-text text-skin-highlight' : ''}>{value}</span>}
+                      </li>
+                    );
+                  })}
+                </ul>
+                <p className="text-xs text-center text-skin-muted p-2">
+                  {adjustingSmartValue ? 'Turn the wheel to adjust. Press the center button to confirm.' : `${matchingSongCount} song${matchingSongCount === 1 ? '' : 's'} match`}
+                </p>
+            </Screen>
+        );
+      case 'smart-rule-editor':
+        if (!editingRule) return <Screen header="Error">Rule not found.</Screen>;
+        const getSmartRuleRow = (item: string): { label: string; value?: React.ReactNode } => {
+          if (item === 'field') return { label: 'Field', value: SMART_RULE_FIELD_LABELS[editingRule.field] };
+          if (item === 'remove') return { label: 'Remove Rule' };
+          if (item === 'contains' && 'contains' in editingRule) return {
+            label: 'Contains',
+            value: <input ref={smartTextInput} type="text" value={editingRule.contains} onChange={e => updateEditingRule(rule => ({ ...rule, contains: e.target.value }) as SmartRule)} onClick={e => e.stopPropagation()} className="w-32 px-1 rounded bg-skin-field text-skin-screen-text text-sm outline-none focus:ring-2 focus:ring-blue-500" aria-label="Text to match"/>,
+          };
+          const key = item as SmartRuleNumberKey;
+          return { label: SMART_RULE_NUMBER_VALUES[key].label, value: describeSmartRuleValue(editingRule, key) };
+        };
+        return (
+            <Screen header={`${SMART_RULE_FIELD_LABELS[editingRule.field]} Rule`}>
+                <ul className="p-1 space-y-1 cursor-pointer">
+                  {smartRuleEditorItems.map((item, i) => {
+                    const { label, value } = getSmartRuleRow(item);
+                    return (
+                      <li key={item} onClick={() => handleSmartRuleEditorSelection(i)} className={`px-3 py-2 font-semibold transition-colors rounded-md flex justify-between items-center gap-2 ${item === 'remove' ? 'text-red-500' : ''} ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>
+                        <span>{label}</span>
+                        {value !== undefined && <span className={adjustingSmartValue === item ? 'px-2 rounded bg-skin-highlight-text text-skin-highlight' : ''}>{value}</span>}
+                      </li>
+                    );
+                  })}
+                </ul>
+                <p className="text-xs text-center text-skin-muted p-2">
+                  {adjustingSmartValue ? 'Turn the wheel to adjust. Press the center button to confirm.' : describeSmartRule(editingRule)}
+                </p>
             </Screen>
         );
       case 'delete-song-confirm':
       case 'delete-playlist-confirm':
         const confirmItems = ['No', 'Yes'];
         const isSongDelete = view === 'delete-song-confirm';
-        const itemNameToDelete = isSongDelete ? activePlaylist?.songs[selectedSongIndex!].title : playlists.find(p => p.id === playlistToDeleteId)?.name;
+        const itemNameToDelete = isSongDelete ? activePlaylist?.songs[selectedSongIndex!].title : activePlaylist?.name;
         return (
             <Screen header={`Delete ${isSongDelete ? 'Song' : 'Playlist'}?`}>
                 <div className="p-4 text-center">
                     <p className="mb-4">Are you sure you want to delete "{itemNameToDelete}"?</p>
-                    <ul className="cursor-pointer p-1 space-y-1">{confirmItems.map((item, i) => <li key={item} onClick={() => handleConfirmation(i)} className={`px-3 py-2 font-semibold rounded-md ${item === 'Yes' ? 'text-red-500': ''} ${selectedIndex === i ? 'bg-blue-600 text-white' : 'hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}>{item}</li>)}</ul>
-                </div>
-            </Screen>
-        );
-      case 'shuffle-confirm':
-         const shuffleConfirmItems = ['No', 'Yes'];
-         return (
-            <Screen header="Shuffle Playlist?">
-                <div className="p-4 text-center">
-                    <p className="mb-4">Are you sure you want to shuffle and play this playlist?</p>
-                    <ul className="cursor-pointer p-1 space-y-1">{shuffleConfirmItems.map((item, i) => <li key={item} onClick={() => handleConfirmation(i)} className={`px-3 py-2 font-semibold rounded-md ${item === 'Yes' ? 'text-blue-600': ''} ${selectedIndex === i ? 'bg-blue-600 text-white' : 'hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}>{item}</li>)}</ul>
+                    <ul className="cursor-pointer p-1 space-y-1">{confirmItems.map((item, i) => <li key={item} onClick={() => handleConfirmation(i)} className={`px-3 py-2 font-semibold rounded-md ${item === 'Yes' ? 'text-red-500': ''} ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>{t(item)}</li>)}</ul>
                 </div>
             </Screen>
         );
       case 'add-song':
         return (
-            <Screen header="Add YouTube URL">
-                <div className="p-4 space-y-4 flex flex-col h-full">
-                    <label htmlFor="url-input" className="text-sm text-gray-700 dark:text-gray-300">Paste a YouTube URL below.</label>
+            <Screen header={t('Add Songs')}>
+                <div className="p-4 space-y-4 flex flex-col h-full" onDragOver={e => e.preventDefault()} onDrop={handleAddSongDrop}>
+                    <div className="flex justify-between items-center">
+                      <label htmlFor="url-input" className="text-sm text-skin-screen-text">Paste one or more YouTube URLs below.</label>
+                      <div className="flex ml-2 space-x-2">
+                        <button onClick={() => songListFileInput.current?.click()} className="text-xs font-semibold text-blue-600 hover:underline whitespace-nowrap">Open File…</button>
+                        <button onClick={() => audioFileInput.current?.click()} className="text-xs font-semibold text-blue-600 hover:underline whitespace-nowrap">Add Audio Files…</button>
+                      </div>
+                    </div>
                     <textarea 
                       id="url-input"
                       value={urlInput} 
                       onChange={e => setUrlInput(e.target.value)} 
-                      className="w-full flex-grow p-2 border rounded-md resize-none bg-white dark:bg-zinc-700 dark:text-white dark:border-zinc-600 text-black focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors" 
+                      className="w-full flex-grow p-2 border rounded-md resize-none bg-skin-field text-skin-screen-text border-skin-divider focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors" 
                       placeholder="e.g. https://www.youtube.com/watch?v=..." 
                       aria-label="YouTube URL Input"
                     />
-                    <p className="text-xs text-center text-gray-500 pt-2">Press the center button to add.</p>
+                    <p className="text-xs text-center text-skin-muted pt-2">Press the center button to add. Text and M3U files work too, or drop audio files here.</p>
+                    <input ref={songListFileInput} type="file" accept={SONG_LIST_FILE_TYPES} onChange={handleSongListFileChosen} className="hidden" aria-label="Open song list file" />
+                    <input ref={audioFileInput} type="file" multiple accept={LOCAL_AUDIO_FILE_TYPES} onChange={handleAudioFilesChosen} className="hidden" aria-label="Add audio files" />
+                </div>
+            </Screen>
+        );
+      case 'bulk-add-review':
+        const countEntries = (status: SongListEntry['status']) => songListEntries.filter(e => e.status === status).length;
+        const statusClasses: Record<SongListEntry['status'], string> = {
+          valid: 'text-green-500',
+          invalid: 'text-red-500',
+          duplicate: 'text-skin-muted',
+        };
+        return (
+            <Screen header="Review Songs">
+                <div className="p-2 space-y-2">
+                    <p className="text-xs text-center text-skin-muted">
+                      {countEntries('valid')} valid · {countEntries('invalid')} invalid · {countEntries('duplicate')} duplicates
+                    </p>
+                    <ul className="cursor-pointer p-1 space-y-1">{bulkAddReviewItems.map((item, i) => <li key={item} onClick={() => handleBulkAddReviewSelection(i)} className={`px-3 py-2 font-semibold rounded-md ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>{item}</li>)}</ul>
+                    <ul className="px-1 space-y-1 text-xs border-t border-skin-divider pt-2">
+                      {songListEntries.map((entry, i) => (
+                        <li key={`${entry.text}-${i}`} className="flex justify-between space-x-2">
+                          <span className="truncate">{entry.text}</span>
+                          <span className={`uppercase font-bold ${statusClasses[entry.status]}`}>{entry.status}</span>
+                        </li>
+                      ))}
+                    </ul>
                 </div>
             </Screen>
         );
@@ -775,8 +2838,8 @@ const App: React.FC = () => {
         return (
             <Screen header="Add to...">
                 <ul className="cursor-pointer p-1 space-y-1">
-                    {[...playlists, {id: 'new', name: 'Create New Playlist', songs:[]}].map((p, i) => (
-                        <li key={p.id} onClick={() => handleSelectPlaylistForSongSelection(i)} className={`px-3 py-2 font-semibold transition-colors rounded-md flex justify-between items-center ${selectedIndex === i ? 'bg-blue-600 text-white' : 'hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}>
+                    {addToPlaylistItems.map((p, i) => (
+                        <li key={p.id} onClick={() => handleSelectPlaylistForSongSelection(i)} className={`px-3 py-2 font-semibold transition-colors rounded-md flex justify-between items-center ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>
                             <span>{p.name}</span> <ChevronRightIcon className="w-5 h-5"/>
                         </li>
                     ))}
@@ -787,14 +2850,14 @@ const App: React.FC = () => {
         return (
             <Screen header="New Playlist">
                 <div className="p-4 space-y-4">
-                    <p className="text-sm text-gray-700 dark:text-gray-300">Enter a name for the new playlist.</p>
-                    <input type="text" value={newPlaylistName} onChange={e => setNewPlaylistName(e.target.value)} className="w-full p-2 border rounded-md bg-white dark:bg-zinc-700 dark:text-white dark:border-zinc-600 text-black focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors" placeholder="Playlist Name" autoFocus/>
-                    <p className="text-xs text-center text-gray-500">Press the center button to save.</p>
+                    <p className="text-sm text-skin-screen-text">Enter a name for the new playlist.</p>
+                    <input type="text" value={newPlaylistName} onChange={e => setNewPlaylistName(e.target.value)} className="w-full p-2 border rounded-md bg-skin-field text-skin-screen-text border-skin-divider focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors" placeholder="Playlist Name" autoFocus/>
+                    <p className="text-xs text-center text-skin-muted">Press the center button to save.</p>
                 </div>
             </Screen>
         );
       case 'now-playing':
-        if (!currentSong) return <Screen header="Now Playing"><p className="p-4 text-center text-gray-500">No song selected.</p></Screen>;
+        if (!currentSong) return <Screen header={t('Now Playing')}><p className="p-4 text-center text-skin-muted">No song selected.</p></Screen>;
 
         const controls = [
             { id: 'prev', icon: <PrevTrackIcon className="w-6 h-6" /> },
@@ -802,59 +2865,277 @@ const App: React.FC = () => {
             { id: 'next', icon: <NextTrackIcon className="w-6 h-6" /> },
         ];
         
-        const isTrackControlSelected = selectedIndex >= 0 && selectedIndex <= 2;
-        const isPlaybackSelected = selectedIndex === 3;
-        const isRepeatSelected = selectedIndex === 4;
+        const nowPlayingIndex = (item: string) => nowPlayingMenuItems.indexOf(item);
+        const firstControlIndex = nowPlayingIndex('prev');
+        const isProgressSelected = selectedIndex === nowPlayingIndex('progress');
+        const isTrackControlSelected = selectedIndex >= firstControlIndex && selectedIndex < firstControlIndex + controls.length;
+        const isPlaybackSelected = selectedIndex === nowPlayingIndex('playback-mode');
+        const isRepeatSelected = selectedIndex === nowPlayingIndex('repeat-mode');
+        const isShuffleSelected = selectedIndex === nowPlayingIndex('shuffle-mode');
+        const isRatingSelected = selectedIndex === nowPlayingIndex('rating');
+        const isLyricsSelected = selectedIndex === nowPlayingIndex('lyrics');
+        const showsLyrics = nowPlayingWheelMode === 'lyrics' && !!currentLyrics;
+
+        const clipRange = getClipRange(currentSong, progress.duration);
+        const clipLength = Math.max(clipRange.end - clipRange.start, 0);
+        const shownTime = Math.min(Math.max((scrubPosition ?? progress.time) - clipRange.start, 0), clipLength);
+        const wheelModeLabels: Record<NowPlayingWheelMode, string> = { track: 'Track', scrub: 'Scrubbing', volume: 'Volume', rating: 'Rating', lyrics: 'Lyrics' };
+        const isLocal = isLocalSong(currentSong);
+        const subtitle = currentSong.artist ?? currentSong.channel;
 
         return (
-            <Screen header="Now Playing">
+            <Screen header={t('Now Playing')}>
                 <div className="p-2 flex flex-col items-center justify-between h-full text-center">
                     <div className="w-full">
-                        <h2 className="font-bold text-xl mb-2 truncate">{currentSong.title}</h2>
-                        <div id="youtube-player-container" className={`${playbackMode === 'audio' ? 'hidden' : ''}`}>
-                            <div id="youtube-player"></div>
-                        </div>
-                        {playbackMode === 'audio' && (
+                        <h2 className={`font-bold text-xl truncate ${subtitle ? '' : 'mb-2'}`}>{currentSong.title}</h2>
+                        {subtitle && <p className="text-sm text-skin-muted mb-2 truncate">{subtitle}</p>}
+                        {upNext.length > 0 && <p className="text-xs text-skin-muted mb-1 truncate">Up Next: {resolveUpNextSong(upNext[0], playlists).title}</p>}
+                        {/* Both stay mounted so the idle one can preload the next video, whatever plays now. */}
+                        {YOUTUBE_PLAYER_ELEMENTS.map(elementId => (
+                            <div key={elementId} className={isLocal || playbackMode === 'audio' || showsLyrics || elementId !== visibleYouTubeElement ? 'hidden' : ''}>
+                                <div id={elementId}></div>
+                            </div>
+                        ))}
+                        {showsLyrics ? (
+                            <ul className="relative h-56 my-2 px-1 overflow-y-auto text-sm space-y-1">
+                                {currentLyrics.lines.map((line, i) => (
+                                    <li
+                                        key={i}
+                                        ref={i === (lyricsCursor ?? currentLyricLine) ? centerLyricLine : undefined}
+                                        onClick={() => seekToLyricLine(i)}
+                                        className={`px-2 py-0.5 rounded-md ${line.seconds !== undefined ? 'cursor-pointer' : ''} ${i === lyricsCursor ? 'bg-skin-highlight text-skin-highlight-text' : i === currentLyricLine ? 'font-bold' : currentLyrics.synced ? 'text-skin-muted' : ''}`}
+                                    >
+                                        {line.text || (currentLyrics.synced ? '♪' : '\u00a0')}
+                                    </li>
+                                ))}
+                            </ul>
+                        ) : (playbackMode === 'audio' || isLocal) && (
                              <div className="flex-grow flex items-center justify-center my-2">
-                                <div className="w-56 h-56 mx-auto shadow-2xl rounded-md overflow-hidden bg-gray-200 dark:bg-gray-700">
-                                    <img 
-                                        src={`https://img.youtube.com/vi/${currentSong.id}/hqdefault.jpg`} 
-                                        alt="video thumbnail" 
-                                        className="w-full h-full object-cover" 
-                                    />
+                                <div className="w-56 h-56 mx-auto shadow-2xl rounded-md overflow-hidden bg-skin-track">
+                                    {isLocal ? (
+                                        localArtworkUrl
+                                          ? <img src={localArtworkUrl} alt="album artwork" className="w-full h-full object-cover" />
+                                          : <div className="w-full h-full flex items-center justify-center text-6xl text-skin-muted">♪</div>
+                                    ) : (
+                                        <img 
+                                            src={`https://img.youtube.com/vi/${currentSong.id}/hqdefault.jpg`} 
+                                            alt="video thumbnail" 
+                                            className="w-full h-full object-cover" 
+                                        />
+                                    )}
                                 </div>
                             </div>
                         )}
                     </div>
 
                     <div className="w-full space-y-2 mt-auto">
-                        <div onClick={() => isTrackControlSelected && handleNowPlayingSelection(selectedIndex)} className={`flex justify-around items-center p-1 rounded-md transition-colors ${isTrackControlSelected ? 'bg-blue-600/30' : ''}`}>
+                        <div onClick={() => handleNowPlayingSelection(nowPlayingIndex('progress'))} className={`px-2 py-1 rounded-md transition-colors cursor-pointer ${isProgressSelected ? 'bg-skin-highlight-soft' : ''}`}>
+                            {nowPlayingWheelMode === 'volume' ? (
+                                <div className="flex items-center space-x-2 text-xs">
+                                    <span className="font-bold uppercase">{wheelModeLabels.volume}</span>
+                                    <div className="flex-grow h-1.5 rounded-full bg-skin-track overflow-hidden">
+                                        <div className="h-full bg-skin-highlight" style={{ width: `${volume}%` }}></div>
+                                    </div>
+                                    <span className="w-8 text-right">{volume}</span>
+                                </div>
+                            ) : (
+                                <>
+                                    <div className="h-1.5 rounded-full bg-skin-track overflow-hidden">
+                                        <div className={`h-full ${nowPlayingWheelMode === 'scrub' ? 'bg-orange-500' : 'bg-skin-highlight'}`} style={{ width: `${clipLength > 0 ? shownTime / clipLength * 100 : 0}%` }}></div>
+                                    </div>
+                                    <div className="flex justify-between text-xs mt-0.5">
+                                        <span>{formatTime(shownTime)}</span>
+                                        <span className={`uppercase ${nowPlayingWheelMode === 'scrub' ? 'font-bold' : 'text-skin-muted'}`}>{wheelModeLabels[nowPlayingWheelMode]}</span>
+                                        <span>-{formatTime(clipLength - shownTime)}</span>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                        <div onClick={() => isTrackControlSelected && handleNowPlayingSelection(selectedIndex)} className={`flex justify-around items-center p-1 rounded-md transition-colors ${isTrackControlSelected ? 'bg-skin-highlight-soft' : ''}`}>
                             {controls.map((control, i) => (
-                                <div key={control.id} onClick={(e) => { e.stopPropagation(); handleNowPlayingSelection(i); }} className={`p-2 rounded-full cursor-pointer ${selectedIndex === i ? 'bg-blue-600 text-white' : 'text-black dark:text-white'}`}>
+                                <div key={control.id} onClick={(e) => { e.stopPropagation(); handleNowPlayingSelection(firstControlIndex + i); }} className={`p-2 rounded-full cursor-pointer ${selectedIndex === firstControlIndex + i ? 'bg-skin-highlight text-skin-highlight-text' : 'text-skin-screen-text'}`}>
                                     {control.icon}
                                 </div>
                             ))}
                         </div>
-                        <div onClick={() => handleNowPlayingSelection(3)} className={`p-1 rounded-md transition-colors cursor-pointer ${isPlaybackSelected ? 'bg-blue-600 text-white' : ''}`}>
+                        <div onClick={() => handleNowPlayingSelection(nowPlayingIndex('playback-mode'))} className={`p-1 rounded-md transition-colors cursor-pointer ${isPlaybackSelected ? 'bg-skin-highlight text-skin-highlight-text' : ''}`}>
                             <label className="flex items-center justify-center cursor-pointer">
                                 <span className="mr-3 text-sm font-medium">Audio</span>
                                 <div className="relative">
-                                    <div className={`w-10 h-5 rounded-full transition-colors ${playbackMode === 'video' ? 'bg-blue-600' : 'bg-zinc-400 dark:bg-zinc-600'}`}>
-                                      <div className={`absolute top-[2px] left-[2px] bg-white border-gray-300 border rounded-full h-4 w-4 transition-transform ${playbackMode === 'video' ? 'translate-x-5' : ''}`}></div>
+                                    <div className={`w-10 h-5 rounded-full transition-colors ${playbackMode === 'video' ? 'bg-skin-highlight' : 'bg-skin-track'}`}>
+                                      <div className={`absolute top-[2px] left-[2px] bg-white border-skin-divider border rounded-full h-4 w-4 transition-transform ${playbackMode === 'video' ? 'translate-x-5' : ''}`}></div>
                                     </div>
                                 </div>
                                 <span className="ml-3 text-sm font-medium">Video</span>
                             </label>
                         </div>
-                         <div onClick={() => handleNowPlayingSelection(4)} className={`p-1 rounded-md transition-colors text-center cursor-pointer ${isRepeatSelected ? 'bg-blue-600 text-white' : ''}`}>
+                         <div onClick={() => handleNowPlayingSelection(nowPlayingIndex('repeat-mode'))} className={`p-1 rounded-md transition-colors text-center cursor-pointer ${isRepeatSelected ? 'bg-skin-highlight text-skin-highlight-text' : ''}`}>
                             <div className="flex items-center justify-center space-x-2">
-                                {repeatMode === 'off' && <RepeatIcon className={`w-5 h-5 ${isRepeatSelected ? 'text-white' : 'text-gray-500'}`} />}
+                                {repeatMode === 'off' && <RepeatIcon className={`w-5 h-5 ${isRepeatSelected ? 'text-white' : 'text-skin-muted'}`} />}
                                 {repeatMode === 'all' && <RepeatIcon className="w-5 h-5" />}
                                 {repeatMode === 'one' && <RepeatOneIcon className="w-5 h-5" />}
                                 <span className="text-sm">Repeat: <span className="font-bold uppercase">{repeatMode}</span></span>
                             </div>
                         </div>
+                        <div onClick={() => handleNowPlayingSelection(nowPlayingIndex('shuffle-mode'))} className={`p-1 rounded-md transition-colors text-center cursor-pointer ${isShuffleSelected ? 'bg-skin-highlight text-skin-highlight-text' : ''}`}>
+                            <div className="flex items-center justify-center space-x-2">
+                                <ShuffleIcon className={`w-5 h-5 ${shuffleMode === 'off' && !isShuffleSelected ? 'text-skin-muted' : ''}`} />
+                                <span className="text-sm">Shuffle: <span className="font-bold uppercase">{shuffleMode}</span></span>
+                            </div>
+                        </div>
+                        <div onClick={() => handleNowPlayingSelection(nowPlayingIndex('rating'))} className={`p-1 rounded-md transition-colors text-center cursor-pointer ${isRatingSelected ? 'bg-skin-highlight text-skin-highlight-text' : ''}`}>
+                            <span className="text-sm">
+                                Rating: <span className={`tracking-widest ${nowPlayingWheelMode === 'rating' ? 'px-2 rounded bg-skin-highlight-text text-skin-highlight' : ''}`}>{formatRating(currentSongRating)}</span>
+                            </span>
+                        </div>
+                        <div onClick={() => handleNowPlayingSelection(nowPlayingIndex('lyrics'))} className={`p-1 rounded-md transition-colors text-center cursor-pointer ${isLyricsSelected ? 'bg-skin-highlight text-skin-highlight-text' : ''}`}>
+                            <span className="text-sm">Lyrics: <span className="font-bold uppercase">{!currentLyrics ? 'Add…' : showsLyrics ? 'On' : 'Off'}</span></span>
+                        </div>
+                    </div>
+                </div>
+            </Screen>
+        );
+      case 'controls':
+        if (rebindingAction) {
+          return (
+            <Screen header={t('Controls')}>
+              <div className="p-4 text-center space-y-4">
+                <p className="font-semibold">{WHEEL_ACTION_LABELS[rebindingAction]}</p>
+                <p className="text-sm text-skin-screen-text">Press a key or gamepad button.</p>
+                <p className="text-xs text-skin-muted">Press Esc or Menu to cancel.</p>
+              </div>
+            </Screen>
+          );
+        }
+        return (
+          <Screen header={t('Controls')}>
+            <ul className="p-1 space-y-1 cursor-pointer">
+              {controlsItems.map((item, i) => (
+                <li key={item} onClick={() => handleControlsSelection(i)} className={`px-3 py-2 transition-colors rounded-md ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>
+                  {item === 'RESET_BINDINGS' ? (
+                    <span className="font-semibold text-red-500">Reset to Defaults</span>
+                  ) : (
+                    <div className="flex justify-between items-center space-x-2">
+                      <span className="font-semibold">{WHEEL_ACTION_LABELS[item]}</span>
+                      <span className="text-xs truncate">{describeBindings(inputBindings, item)}</span>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </Screen>
+        );
+      case 'library':
+        return (
+          <Screen header={t('Library')}>
+            <ul className="p-1 space-y-1 cursor-pointer">{libraryMenuItems.map((item, i) => <li key={item} onClick={() => handleLibrarySelection(i)} className={`px-3 py-2 font-semibold transition-colors rounded-md ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>{item}</li>)}</ul>
+          </Screen>
+        );
+      case 'settings':
+        return (
+          <Screen header={t('Settings')}>
+            <ul className="p-1 space-y-1 cursor-pointer">
+              {settingsItems.map((item, i) => {
+                const label = item === 'SKIN' ? 'Skin' : item === 'RESET_SETTINGS' ? 'Reset All Settings' : SETTING_CHOICES[item].label;
+                const value = item === 'SKIN' ? selectedSkin.name : item === 'RESET_SETTINGS' ? null : t(describeSetting(settings, item));
+                return (
+                  <li key={item} ref={selectedIndex === i ? scrollSelectedIntoView : undefined} onClick={() => handleSettingsSelection(i)} className={`px-3 py-2 transition-colors rounded-md flex justify-between items-center gap-2 ${item === 'RESET_SETTINGS' ? 'text-red-500' : ''} ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>
+                    <span className="font-semibold truncate">{t(label)}</span>
+                    {value !== null && <span className="flex items-center text-sm flex-shrink-0">{value}<ChevronRightIcon className="w-5 h-5"/></span>}
+                  </li>
+                );
+              })}
+            </ul>
+          </Screen>
+        );
+      case 'setting-choice':
+        if (!settingChoiceKey) return <Screen header="Error">Setting not found</Screen>;
+        return (
+          <Screen header={t(SETTING_CHOICES[settingChoiceKey].label)}>
+            <ul className="p-1 space-y-1 cursor-pointer">
+              {settingOptions.map((option, i) => (
+                <li key={option.label} onClick={() => handleSettingChoiceSelection(i)} className={`px-3 py-2 font-semibold transition-colors rounded-md ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>
+                  {option.value === settings[settingChoiceKey] ? '✓ ' : ''}{t(option.label)}
+                </li>
+              ))}
+            </ul>
+          </Screen>
+        );
+      case 'reset-settings-confirm':
+        return (
+          <Screen header={`${t('Reset All Settings')}?`}>
+            <div className="p-4 text-center">
+              <p className="mb-4">Sound, vibration, playback defaults, skin, language and controls go back to how they started.</p>
+              <ul className="cursor-pointer p-1 space-y-1">{['No', 'Yes'].map((item, i) => <li key={item} onClick={() => handleConfirmation(i)} className={`px-3 py-2 font-semibold rounded-md ${item === 'Yes' ? 'text-red-500': ''} ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>{t(item)}</li>)}</ul>
+            </div>
+          </Screen>
+        );
+      case 'skins':
+        return (
+          <Screen header={t('Skin')}>
+            <ul className="p-1 space-y-1 cursor-pointer">
+              {skinItems.map((item, i) => {
+                const skin = skins[i];
+                return (
+                  <li key={item} ref={selectedIndex === i ? scrollSelectedIntoView : undefined} onClick={() => handleSkinSelection(i)} className={`px-3 py-2 transition-colors rounded-md flex justify-between items-center ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>
+                    {skin ? (
+                      <>
+                        <span className="font-semibold truncate">{skin.id === selectedSkin.id ? '✓ ' : ''}{skin.name}{customSkins.includes(skin) && <span className="ml-2 px-1 text-[10px] uppercase border rounded align-middle">Custom</span>}</span>
+                        <span className="flex flex-shrink-0 space-x-0.5">
+                          {[skin.tokens.body, skin.tokens.wheel, skin.tokens.screen, skin.tokens.highlight].map((color, j) => (
+                            <span key={j} className="w-3 h-3 rounded-sm border border-black/20" style={{ backgroundColor: color }}></span>
+                          ))}
+                        </span>
+                      </>
+                    ) : <span className="font-semibold">Import Skin…</span>}
+                  </li>
+                );
+              })}
+            </ul>
+          </Screen>
+        );
+      case 'import-confirm':
+        if (!pendingImport) return <Screen header="Error">Nothing to import.</Screen>;
+        const importedSongCount = pendingImport.playlists.reduce((count, p) => count + p.songs.length, 0);
+        return (
+          <Screen header="Import Library?">
+            <div className="p-4 text-center">
+              <p className="mb-4">Found {pendingImport.playlists.length} playlists with {importedSongCount} songs.</p>
+              <ul className="cursor-pointer p-1 space-y-1">{importOptions.map((item, i) => <li key={item} onClick={() => handleImportConfirmSelection(i)} className={`px-3 py-2 font-semibold rounded-md ${item === 'Replace Library' ? 'text-red-500' : ''} ${selectedIndex === i ? 'bg-skin-highlight text-skin-highlight-text' : 'hover:bg-skin-hover'}`}>{item}</li>)}</ul>
+            </div>
+          </Screen>
+        );
+      case 'import-report':
+        if (!importReport) return <Screen header="Error">No import results.</Screen>;
+        return (
+          <Screen header="Import Complete">
+            <div className="p-4 space-y-2 text-sm">
+              <p><span className="font-bold">{importReport.songsAdded}</span> songs added, <span className="font-bold">{importReport.songsSkipped}</span> skipped.</p>
+              {importReport.playlistsAdded.length > 0 && <p>New playlists: {importReport.playlistsAdded.join(', ')}</p>}
+              {importReport.playlistsMerged.length > 0 && <p>Updated playlists: {importReport.playlistsMerged.join(', ')}</p>}
+              <p className="text-xs text-center text-skin-muted pt-2">Press the center button to view playlists.</p>
+            </div>
+          </Screen>
+        );
+      case 'lyrics-editor':
+        const lyricsSong = [currentSong, ...playlists.flatMap(p => p.songs)].find(song => song?.id === screen.params.songId);
+        return (
+            <Screen header={t('Lyrics')}>
+                <div className="p-4 space-y-4 flex flex-col h-full">
+                    <div className="flex justify-between items-center">
+                      <label htmlFor="lyrics-input" className="text-sm text-skin-screen-text truncate">{lyricsSong?.title ?? 'Lyrics'}</label>
+                      <button onClick={() => lyricsFileInput.current?.click()} className="ml-2 text-xs font-semibold text-blue-600 hover:underline whitespace-nowrap">Import LRC File…</button>
                     </div>
+                    <textarea
+                      id="lyrics-input"
+                      value={lyricsDraft}
+                      onChange={e => setLyricsDraft(e.target.value)}
+                      className="w-full flex-grow p-2 border rounded-md resize-none bg-skin-field text-skin-screen-text border-skin-divider text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-colors"
+                      placeholder={'Paste lyrics here.\n[00:12.50] Timed lines scroll along with the song.'}
+                      aria-label="Lyrics"
+                    />
+                    <p className="text-xs text-center text-skin-muted pt-2">Press the center button to save. Saving an empty box removes the lyrics.</p>
+                    <input ref={lyricsFileInput} type="file" accept={LYRICS_FILE_TYPES} onChange={handleLyricsFileChosen} className="hidden" aria-label="Import lyrics file" />
                 </div>
             </Screen>
         );
@@ -863,27 +3144,57 @@ const App: React.FC = () => {
   };
 
   return (
-    <div className={`bg-black min-h-screen w-full flex justify-center items-center p-4 ${theme}`}>
-      <div className="relative w-full max-w-sm h-[85vh] max-h-[700px] bg-zinc-200 dark:bg-zinc-900 rounded-3xl shadow-2xl flex flex-col p-2.5 border border-zinc-400 dark:border-zinc-700">
+    <div className={`bg-black min-h-screen w-full flex justify-center items-center p-4 ${shownSkin.appearance}`} style={getSkinStyle(shownSkin)}>
+      <div
+        data-backlight={backlight}
+        data-hold={isHoldOn ? 'on' : 'off'}
+        onPointerDownCapture={handleDevicePointerDown}
+        onPointerUpCapture={handleDevicePointerUp}
+        onPointerCancelCapture={() => { wakingPress.current = false; }}
+        onClickCapture={handleDeviceClickCapture}
+        onKeyDownCapture={() => { if (backlight !== 'off') restartBacklightTimer(); }}
+        className={`group relative w-full ${view === 'cover-flow' ? 'max-w-2xl' : 'max-w-sm'} h-[85vh] max-h-[700px] bg-skin-body rounded-3xl shadow-2xl flex flex-col p-2.5 border border-skin-body-border transition-[max-width] duration-300`}
+      >
         {renderView()}
+        {jumpLetter && (
+          <div className="absolute left-1/2 -translate-x-1/2 top-[calc(25%-1.5rem)] w-16 h-16 flex items-center justify-center rounded-xl bg-zinc-800/90 text-white text-4xl font-bold shadow-lg pointer-events-none">
+            {jumpLetter}
+          </div>
+        )}
+        {toast && (
+          <button
+            onClick={() => { if (toast.undoable) handleUndo(); else setToast(null); }}
+            className="absolute left-1/2 -translate-x-1/2 top-[calc(50%-3rem)] px-4 py-2 rounded-full bg-zinc-800/90 text-white text-sm font-semibold shadow-lg"
+          >
+            {toast.message}
+          </button>
+        )}
+        <input ref={importFileInput} type="file" accept=".json,application/json" onChange={handleImportFileChosen} className="hidden" aria-label="Import library file" />
+        <input ref={skinFileInput} type="file" accept=".json,application/json" onChange={handleSkinFileChosen} className="hidden" aria-label="Import skin file" />
         <ClickWheel
-          onMenuClick={handleMenu}
-          onCenterClick={handleCenterClick}
-          onCenterLongPress={handleCenterLongPress}
-          onNextClick={handleNext}
-          onPrevClick={handlePrev}
-          onPlayPauseClick={handlePlayPause}
+          onMenuClick={guardWheelInput(handleMenu)}
+          onMenuLongPress={guardWheelInput(handleMenuLongPress)}
+          onCenterClick={guardWheelInput(handleCenterClick)}
+          onCenterLongPress={guardWheelInput(handleCenterLongPress)}
+          onNextClick={guardWheelInput(handleNext)}
+          onPrevClick={guardWheelInput(handlePrev)}
+          onPlayPauseClick={guardWheelInput(handlePlayPause)}
           isPlaying={isPlaying}
+          sensitivity={settings.wheelSensitivity}
+          acceleration={settings.wheelAcceleration}
+          disabled={isHoldOn}
         />
         <button
-          onClick={() => {
-              triggerVibration();
-              setTheme(t => t === 'light' ? 'dark' : 'light')
-          }}
-          className="absolute bottom-4 right-4 text-gray-600 dark:text-gray-300 p-2 rounded-full bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors shadow-md"
-          aria-label="Toggle theme"
+          data-hold-switch
+          onClick={handleHoldToggle}
+          className="absolute -top-2 right-12 flex items-center space-x-1 px-1.5 py-0.5 rounded-full bg-skin-body border border-skin-body-border text-[9px] font-bold uppercase text-skin-wheel-text"
+          aria-label={isHoldOn ? 'Turn Hold off' : 'Turn Hold on'}
+          aria-pressed={isHoldOn}
         >
-          {theme === 'light' ? <MoonIcon className="w-6 h-6" /> : <SunIcon className="w-6 h-6" />}
+          <span>Hold</span>
+          <span className={`relative w-6 h-3 rounded-full transition-colors ${isHoldOn ? 'bg-orange-500' : 'bg-zinc-400'}`}>
+            <span className={`absolute top-0.5 left-0.5 w-2 h-2 rounded-full bg-white transition-transform ${isHoldOn ? 'translate-x-3' : ''}`}></span>
+          </span>
         </button>
       </div>
     </div>
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import type { Song } from '../types';
+import type { MusicCollection } from '../services/musicLibrary';
+import { getSongCredits } from '../services/musicLibrary';
+import { isLocalSong } from '../services/localAudio';
+
+// Covers drawn on each side of the selected one; the rest of the library isn't rendered at all.
+const VISIBLE_COVERS = 6;
+// Distance from the center of the selected cover to the first cover beside it, in pixels.
+const COVER_CENTER_GAP = 72;
+// Distance between neighbouring covers in the side stacks, in pixels.
+const COVER_STACK_SPACING = 26;
+// How far the side stacks sit behind the selected cover, in pixels.
+const COVER_STACK_DEPTH = 90;
+// How far side covers are turned away from the viewer, in degrees.
+const COVER_STACK_ANGLE = 65;
+// Tracks listed at once on the back of a flipped cover.
+const TRACK_ROWS = 5;
+
+const getCoverTransform = (offset: number, flipped: boolean) => {
+  if (offset === 0) return flipped ? 'translateZ(40px) rotateY(180deg) scale(1.35)' : 'translateZ(0) rotateY(0deg)';
+  const side = Math.sign(offset);
+  const x = side * (COVER_CENTER_GAP + (Math.abs(offset) - 1) * COVER_STACK_SPACING);
+  return `translateX(${x}px) translateZ(-${COVER_STACK_DEPTH}px) rotateY(${-side * COVER_STACK_ANGLE}deg)`;
+};
+
+interface CoverArtProps {
+  song: Song | undefined;
+  loadArtwork: (songId: string) => Promise<Blob | undefined>;
+}
+
+// YouTube songs use the video thumbnail; local files use their embedded artwork, loaded only while the cover is on screen.
+const CoverArt: React.FC<CoverArtProps> = ({ song, loadArtwork }) => {
+  const [localUrl, setLocalUrl] = useState<string | null>(null);
+  const localSongId = song && isLocalSong(song) ? song.id : null;
+
+  useEffect(() => {
+    if (!localSongId) return;
+    let cancelled = false;
+    let url: string | null = null;
+    loadArtwork(localSongId)
+      .then(artwork => {
+        if (cancelled || !artwork) return;
+        url = URL.createObjectURL(artwork);
+        setLocalUrl(url);
+      })
+      .catch(error => console.error("Failed to load artwork", error));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setLocalUrl(null);
+    };
+  }, [localSongId, loadArtwork]);
+
+  const src = song && !localSongId ? `https://img.youtube.com/vi/${song.id}/hqdefault.jpg` : localUrl;
+  if (!src) {
+    return <div className="w-full h-full flex items-center justify-center bg-skin-track text-skin-muted text-4xl">♪</div>;
+  }
+  return <img src={src} alt="" loading="lazy" decoding="async" draggable={false} className="w-full h-full object-cover" />;
+};
+
+interface CoverFlowProps {
+  albums: MusicCollection[];
+  selectedIndex: number;
+  trackIndex: number | null; // Set while the selected cover is flipped over to its track list
+  onCoverClick: (index: number) => void;
+  onTrackClick: (index: number) => void;
+  loadArtwork: (songId: string) => Promise<Blob | undefined>;
+}
+
+/**
+ * Albums as a row of covers in perspective, the selected one facing the viewer.
+ * Only the covers near the selection are mounted, so moving through thousands
+ * of albums costs the same as moving through ten; each cover slides to its new
+ * place with a CSS transition.
+ */
+export const CoverFlow: React.FC<CoverFlowProps> = ({ albums, selectedIndex, trackIndex, onCoverClick, onTrackClick, loadArtwork }) => {
+  const selectedAlbum = albums[selectedIndex];
+  const flipped = trackIndex !== null;
+  const first = Math.max(0, selectedIndex - VISIBLE_COVERS);
+  const last = Math.min(albums.length - 1, selectedIndex + VISIBLE_COVERS);
+  const visibleAlbums = albums.slice(first, last + 1);
+  const trackStart = trackIndex === null || !selectedAlbum
+    ? 0
+    : Math.max(0, Math.min(trackIndex - Math.floor(TRACK_ROWS / 2), selectedAlbum.songs.length - TRACK_ROWS));
+
+  return (
+    <div className="h-full flex flex-col bg-skin-screen text-skin-screen-text select-none overflow-hidden">
+      <div className="relative flex-grow" style={{ perspective: '500px' }}>
+        {visibleAlbums.map((album, i) => {
+          const index = first + i;
+          const offset = index - selectedIndex;
+          return (
+            <div
+              key={album.id}
+              onClick={() => onCoverClick(index)}
+              className="absolute left-1/2 top-1/2 -ml-12 -mt-12 w-24 h-24 cursor-pointer"
+              style={{
+                transform: getCoverTransform(offset, offset === 0 && flipped),
+                transformStyle: 'preserve-3d',
+                transition: 'transform 300ms ease-out',
+                zIndex: VISIBLE_COVERS + 1 - Math.abs(offset),
+              }}
+            >
+              <div className="absolute inset-0 shadow-lg" style={{ backfaceVisibility: 'hidden', WebkitBoxReflect: 'below 2px linear-gradient(transparent 65%, rgba(255, 255, 255, 0.25))' }}>
+                <CoverArt song={album.songs[0]} loadArtwork={loadArtwork} />
+              </div>
+              {offset === 0 && flipped && (
+                <ul className="absolute inset-0 bg-skin-screen border border-skin-divider p-0.5 text-[8px] leading-tight overflow-hidden" style={{ backfaceVisibility: 'hidden', transform: 'rotateY(180deg)' }}>
+                  {album.songs.slice(trackStart, trackStart + TRACK_ROWS).map((song, row) => {
+                    const songIndex = trackStart + row;
+                    return (
+                      <li
+                        key={song.id}
+                        onClick={e => { e.stopPropagation(); onTrackClick(songIndex); }}
+                        className={`px-1 py-0.5 truncate rounded-sm ${songIndex === trackIndex ? 'bg-skin-highlight text-skin-highlight-text' : ''}`}
+                      >
+                        {getSongCredits(song).title}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {selectedAlbum && (
+        <div className="px-2 pb-2 text-center">
+          <p className="text-sm font-semibold truncate">{selectedAlbum.name}</p>
+          <p className="text-xs text-skin-muted truncate">{selectedAlbum.detail}</p>
+        </div>
+      )}
+    </div>
+  );
+};
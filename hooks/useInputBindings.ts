@@ -0,0 +1,191 @@
+import { useEffect, useRef } from 'react';
+import type { InputBindings, WheelAction } from '../types';
+import { findActionForButton, findActionForKey, LONG_PRESS_ACTIONS, LONG_PRESS_DELAY_MS, REPEAT_DELAY_MS, REPEAT_INTERVAL_MS, STICK_DEADZONE } from '../services/inputBindings';
+
+export type CapturedInput = { type: 'key'; key: string } | { type: 'button'; button: number };
+
+interface HeldInput {
+  action: WheelAction | null;
+  since: number;
+  lastRepeat: number;
+  longPressFired: boolean;
+}
+
+const isRepeatingAction = (action: WheelAction | null) => action === 'next' || action === 'prev';
+
+const isEditableTarget = (target: EventTarget | null): target is HTMLElement =>
+  target instanceof HTMLInputElement ||
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLElement && target.isContentEditable);
+
+/**
+ * Decides whether a bound key may act while the user is typing. Only keys that
+ * have no text-editing meaning get through: Escape leaves the screen, Enter
+ * submits single-line inputs (Ctrl/Cmd+Enter in textareas), and Up/Down move
+ * through the list under a search box.
+ */
+const isAllowedWhileTyping = (e: KeyboardEvent, action: WheelAction, target: HTMLElement) => {
+  const isSingleLine = target instanceof HTMLInputElement;
+  if (action === 'menu') return e.key === 'Escape';
+  if (action === 'center') return e.key === 'Enter' && (isSingleLine || e.ctrlKey || e.metaKey);
+  if (action === 'next' || action === 'prev') return isSingleLine && (e.key === 'ArrowUp' || e.key === 'ArrowDown');
+  return false;
+};
+
+/**
+ * Maps keyboard and Gamepad API input onto the click wheel actions.
+ * While `onCapture` is set, raw key and button presses are handed to it
+ * instead, which is how the Controls screen records new bindings.
+ */
+export const useInputBindings = (
+  bindings: InputBindings,
+  onAction: (action: WheelAction) => void,
+  onCapture: ((input: CapturedInput) => void) | null,
+) => {
+  const bindingsRef = useRef(bindings);
+  const onActionRef = useRef(onAction);
+  const onCaptureRef = useRef(onCapture);
+  bindingsRef.current = bindings;
+  onActionRef.current = onAction;
+  onCaptureRef.current = onCapture;
+
+  // Keyboard
+  useEffect(() => {
+    const heldKeys = new Map<string, { action: WheelAction; timer: ReturnType<typeof setTimeout>; longPressFired: boolean }>();
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (onCaptureRef.current) {
+        if (e.repeat || ['Shift', 'Control', 'Alt', 'Meta'].includes(e.key)) return;
+        e.preventDefault();
+        onCaptureRef.current({ type: 'key', key: e.key });
+        return;
+      }
+
+      const action = findActionForKey(bindingsRef.current, e.key);
+      if (!action) return;
+      if (isEditableTarget(e.target) && !isAllowedWhileTyping(e, action, e.target)) return;
+      e.preventDefault();
+
+      if (e.repeat && !isRepeatingAction(action)) return;
+
+      const longPressAction = LONG_PRESS_ACTIONS[action];
+      if (longPressAction) {
+        // Fires on release so that holding the key can become a long press instead.
+        const held = { action, longPressFired: false, timer: setTimeout(() => {
+          held.longPressFired = true;
+          onActionRef.current(longPressAction);
+        }, LONG_PRESS_DELAY_MS) };
+        heldKeys.set(e.key, held);
+        return;
+      }
+      onActionRef.current(action);
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      // Stop a focused wheel button from also activating on Space/Enter release.
+      if (findActionForKey(bindingsRef.current, e.key) && !isEditableTarget(e.target)) e.preventDefault();
+      const held = heldKeys.get(e.key);
+      if (!held) return;
+      clearTimeout(held.timer);
+      heldKeys.delete(e.key);
+      if (!held.longPressFired) onActionRef.current(held.action);
+    };
+
+    const releaseAll = () => {
+      heldKeys.forEach(held => clearTimeout(held.timer));
+      heldKeys.clear();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', releaseAll);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', releaseAll);
+      releaseAll();
+    };
+  }, []);
+
+  // Gamepad
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return;
+
+    const held = new Map<string, HeldInput>();
+    let frame: number | null = null;
+
+    const press = (id: string, action: WheelAction | null, time: number) => {
+      held.set(id, { action, since: time, lastRepeat: time, longPressFired: false });
+      if (action && !LONG_PRESS_ACTIONS[action]) onActionRef.current(action);
+    };
+
+    const hold = (input: HeldInput, time: number) => {
+      const longPressAction = input.action && LONG_PRESS_ACTIONS[input.action];
+      if (longPressAction && !input.longPressFired && time - input.since >= LONG_PRESS_DELAY_MS) {
+        input.longPressFired = true;
+        onActionRef.current(longPressAction);
+      } else if (isRepeatingAction(input.action) && time - input.since >= REPEAT_DELAY_MS && time - input.lastRepeat >= REPEAT_INTERVAL_MS) {
+        input.lastRepeat = time;
+        onActionRef.current(input.action!);
+      }
+    };
+
+    const release = (input: HeldInput) => {
+      if (input.action && LONG_PRESS_ACTIONS[input.action] && !input.longPressFired) onActionRef.current(input.action);
+    };
+
+    const poll = (time: number) => {
+      const pressedNow = new Set<string>();
+
+      for (const pad of navigator.getGamepads()) {
+        if (!pad) continue;
+
+        pad.buttons.forEach((button, index) => {
+          if (!button.pressed) return;
+          const id = `${pad.index}:button-${index}`;
+          pressedNow.add(id);
+          const existing = held.get(id);
+          if (existing) {
+            hold(existing, time);
+          } else if (onCaptureRef.current) {
+            held.set(id, { action: null, since: time, lastRepeat: time, longPressFired: false });
+            onCaptureRef.current({ type: 'button', button: index });
+          } else {
+            press(id, findActionForButton(bindingsRef.current, index), time);
+          }
+        });
+
+        // The left stick scrolls like the wheel: up/left is previous, down/right is next.
+        const [x = 0, y = 0] = pad.axes;
+        const dominant = Math.abs(y) >= Math.abs(x) ? y : x;
+        if (Math.abs(dominant) > STICK_DEADZONE && !onCaptureRef.current) {
+          const action: WheelAction = dominant > 0 ? 'next' : 'prev';
+          const id = `${pad.index}:stick-${action}`;
+          pressedNow.add(id);
+          const existing = held.get(id);
+          if (existing) hold(existing, time);
+          else press(id, action, time);
+        }
+      }
+
+      held.forEach((input, id) => {
+        if (pressedNow.has(id)) return;
+        held.delete(id);
+        release(input);
+      });
+
+      frame = navigator.getGamepads().some(Boolean) ? requestAnimationFrame(poll) : null;
+    };
+
+    const startPolling = () => {
+      if (frame === null) frame = requestAnimationFrame(poll);
+    };
+
+    window.addEventListener('gamepadconnected', startPolling);
+    if (navigator.getGamepads().some(Boolean)) startPolling();
+    return () => {
+      window.removeEventListener('gamepadconnected', startPolling);
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, []);
+};
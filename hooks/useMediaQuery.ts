@@ -0,0 +1,11 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+/** Whether a CSS media query currently matches, updating as the window is resized or rotated. */
+export const useMediaQuery = (query: string): boolean => {
+  const subscribe = useCallback((onChange: () => void) => {
+    const list = window.matchMedia(query);
+    list.addEventListener('change', onChange);
+    return () => list.removeEventListener('change', onChange);
+  }, [query]);
+  return useSyncExternalStore(subscribe, () => window.matchMedia(query).matches, () => false);
+};
@@ -0,0 +1,72 @@
+import { createPlayerEvents, type PlayerAdapter, type PlayerState } from './playerAdapter';
+
+const MEDIA_ERRORS: Record<number, string> = {
+  1: 'Loading this audio was stopped.',
+  2: 'A network error stopped this audio from loading.',
+  3: "This audio file couldn't be decoded.",
+  4: "This audio file isn't supported.",
+};
+
+/** Plays direct audio URLs (files, streams, blob: URLs) through an `HTMLAudioElement`. */
+export const createAudioPlayerAdapter = (audio: HTMLAudioElement = new Audio()): PlayerAdapter => {
+  const events = createPlayerEvents();
+  let state: PlayerState = 'unstarted';
+
+  const setState = (next: PlayerState) => {
+    if (state === next) return;
+    state = next;
+    events.emitState(next);
+  };
+
+  const listeners: [string, () => void][] = [
+    ['playing', () => setState('playing')],
+    ['pause', () => { if (!audio.ended) setState('paused'); }],
+    ['waiting', () => setState('buffering')],
+    ['ended', () => setState('ended')],
+    ['error', () => {
+      const code = audio.error?.code ?? 0;
+      events.emitError({ code: `media-${code}`, message: MEDIA_ERRORS[code] ?? "This audio couldn't be played." });
+    }],
+  ];
+  listeners.forEach(([type, listener]) => audio.addEventListener(type, listener));
+
+  const play = () => {
+    audio.play().catch(error => {
+      // Autoplay blocks surface as a rejected play(); the user can still press play.
+      console.error("Audio playback was blocked", error);
+      setState('paused');
+    });
+  };
+
+  return {
+    load(url, startSeconds = 0) {
+      state = 'unstarted';
+      audio.src = url;
+      audio.currentTime = startSeconds;
+      play();
+    },
+    preload(url, startSeconds = 0) {
+      state = 'unstarted';
+      audio.preload = 'auto';
+      audio.src = url;
+      audio.currentTime = startSeconds;
+    },
+    play,
+    pause() { audio.pause(); },
+    seek(seconds) { audio.currentTime = seconds; },
+    setVolume(volume) { audio.volume = Math.min(Math.max(volume, 0), 100) / 100; },
+    getVolume: () => Math.round(audio.volume * 100),
+    getCurrentTime: () => audio.currentTime,
+    getDuration: () => Number.isFinite(audio.duration) ? audio.duration : 0,
+    getState: () => state,
+    onStateChange: events.onStateChange,
+    onError: events.onError,
+    destroy() {
+      events.clear();
+      listeners.forEach(([type, listener]) => audio.removeEventListener(type, listener));
+      audio.pause();
+      audio.removeAttribute('src');
+      audio.load();
+    },
+  };
+};
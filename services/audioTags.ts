@@ -0,0 +1,212 @@
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  artwork?: Blob;
+}
+
+// Files without an ID3 header are only searched this far for FLAC and Ogg tags.
+const TAG_SEARCH_LIMIT = 8 * 1024 * 1024;
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const clean = (text: string) => text.replace(/\0+$/, '').trim() || undefined;
+
+// --- ID3v2 (MP3) ---
+
+const ID3_TEXT_ENCODINGS = ['windows-1252', 'utf-16', 'utf-16be', 'utf-8'];
+
+const ID3_FRAMES: Record<string, keyof Omit<AudioTags, 'artwork'>> = {
+  TIT2: 'title', TT2: 'title',
+  TPE1: 'artist', TP1: 'artist',
+  TALB: 'album', TAL: 'album',
+};
+
+const synchsafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+const uint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const decodeId3Text = (bytes: Uint8Array, encoding: number) =>
+  new TextDecoder(ID3_TEXT_ENCODINGS[encoding] ?? 'windows-1252').decode(bytes);
+
+// Returns where the text starting at `start` ends (before its terminator) and where what follows begins.
+const findTerminator = (bytes: Uint8Array, start: number, encoding: number) => {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = start; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return { end: i, next: i + (wide ? 2 : 1) };
+  }
+  return { end: bytes.length, next: bytes.length };
+};
+
+const parseId3Picture = (frame: Uint8Array, isV22: boolean): Blob | undefined => {
+  const encoding = frame[0];
+  let mimeType: string;
+  let offset: number;
+  if (isV22) {
+    const format = ascii(frame, 1, 3).toLowerCase();
+    mimeType = format === 'png' ? 'image/png' : 'image/jpeg';
+    offset = 4;
+  } else {
+    const mime = findTerminator(frame, 1, 0);
+    mimeType = ascii(frame, 1, mime.end - 1) || 'image/jpeg';
+    offset = mime.next;
+  }
+  const description = findTerminator(frame, offset + 1, encoding); // Skips the picture type byte
+  const data = frame.subarray(description.next);
+  return data.length > 0 ? new Blob([data], { type: mimeType.includes('/') ? mimeType : `image/${mimeType}` }) : undefined;
+};
+
+const parseId3 = (bytes: Uint8Array): AudioTags => {
+  const tags: AudioTags = {};
+  const version = bytes[3];
+  const flags = bytes[5];
+  const tagEnd = Math.min(10 + synchsafe(bytes, 6), bytes.length);
+  const isV22 = version === 2;
+  const headerSize = isV22 ? 6 : 10;
+
+  let offset = 10;
+  if (!isV22 && flags & 0x40) {
+    // Extended header: v2.4 counts its own size bytes, v2.3 doesn't.
+    offset += version === 4 ? synchsafe(bytes, offset) : uint32(bytes, offset) + 4;
+  }
+
+  while (offset + headerSize <= tagEnd) {
+    const id = ascii(bytes, offset, isV22 ? 3 : 4);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // Padding
+    const size = isV22
+      ? (bytes[offset + 3] << 16) | (bytes[offset + 4] << 8) | bytes[offset + 5]
+      : version === 4 ? synchsafe(bytes, offset + 4) : uint32(bytes, offset + 4);
+    const frame = bytes.subarray(offset + headerSize, Math.min(offset + headerSize + size, tagEnd));
+    offset += headerSize + size;
+    if (frame.length === 0) continue;
+
+    const field = ID3_FRAMES[id];
+    if (field && !tags[field]) {
+      tags[field] = clean(decodeId3Text(frame.subarray(1), frame[0]));
+    } else if ((id === 'APIC' || id === 'PIC') && !tags.artwork) {
+      tags.artwork = parseId3Picture(frame, isV22);
+    }
+  }
+  return tags;
+};
+
+// --- Vorbis comments (FLAC, Ogg Vorbis, Opus) ---
+
+const VORBIS_FIELDS: Record<string, keyof Omit<AudioTags, 'artwork'>> = {
+  TITLE: 'title',
+  ARTIST: 'artist',
+  ALBUM: 'album',
+};
+
+const uint32le = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset]) | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+// The FLAC PICTURE block layout, also used base64-encoded in Ogg's METADATA_BLOCK_PICTURE.
+const parseFlacPicture = (block: Uint8Array): Blob | undefined => {
+  let offset = 4; // Picture type
+  const mimeLength = uint32(block, offset);
+  const mimeType = ascii(block, offset + 4, mimeLength);
+  offset += 4 + mimeLength;
+  offset += 4 + uint32(block, offset); // Description
+  offset += 16; // Width, height, depth, palette size
+  const dataLength = uint32(block, offset);
+  const data = block.subarray(offset + 4, offset + 4 + dataLength);
+  return data.length > 0 ? new Blob([data], { type: mimeType || 'image/jpeg' }) : undefined;
+};
+
+const parseVorbisComments = (bytes: Uint8Array, tags: AudioTags) => {
+  const decoder = new TextDecoder('utf-8');
+  let offset = 4 + uint32le(bytes, 0); // Vendor string
+  const count = uint32le(bytes, offset);
+  offset += 4;
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = uint32le(bytes, offset);
+    const comment = decoder.decode(bytes.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+    const separator = comment.indexOf('=');
+    if (separator === -1) continue;
+    const key = comment.slice(0, separator).toUpperCase();
+    const value = comment.slice(separator + 1);
+    const field = VORBIS_FIELDS[key];
+    if (field && !tags[field]) {
+      tags[field] = clean(value);
+    } else if (key === 'METADATA_BLOCK_PICTURE' && !tags.artwork) {
+      try {
+        tags.artwork = parseFlacPicture(Uint8Array.from(atob(value), c => c.charCodeAt(0)));
+      } catch {
+        // A malformed picture shouldn't cost us the text tags.
+      }
+    }
+  }
+};
+
+const parseFlac = (bytes: Uint8Array): AudioTags => {
+  const tags: AudioTags = {};
+  let offset = 4;
+  while (offset + 4 <= bytes.length) {
+    const header = bytes[offset];
+    const type = header & 0x7f;
+    const length = (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const block = bytes.subarray(offset + 4, offset + 4 + length);
+    if (type === 4) parseVorbisComments(block, tags);
+    if (type === 6 && !tags.artwork) tags.artwork = parseFlacPicture(block);
+    if (header & 0x80) break; // Last metadata block
+    offset += 4 + length;
+  }
+  return tags;
+};
+
+// Reassembles the first packets of an Ogg stream; the comment header is the second one.
+const readOggPackets = (bytes: Uint8Array, wanted: number): Uint8Array[] => {
+  const packets: Uint8Array[] = [];
+  let current: number[] = [];
+  let offset = 0;
+  while (offset + 27 <= bytes.length && ascii(bytes, offset, 4) === 'OggS' && packets.length < wanted) {
+    const segmentCount = bytes[offset + 26];
+    const lacing = bytes.subarray(offset + 27, offset + 27 + segmentCount);
+    let dataOffset = offset + 27 + segmentCount;
+    for (const size of lacing) {
+      for (let i = 0; i < size; i++) current.push(bytes[dataOffset + i]);
+      dataOffset += size;
+      if (size < 255) {
+        packets.push(Uint8Array.from(current));
+        current = [];
+      }
+    }
+    offset = dataOffset;
+  }
+  return packets;
+};
+
+const parseOgg = (bytes: Uint8Array): AudioTags => {
+  const tags: AudioTags = {};
+  const commentPacket = readOggPackets(bytes, 2)[1];
+  if (!commentPacket) return tags;
+  if (commentPacket[0] === 3 && ascii(commentPacket, 1, 6) === 'vorbis') parseVorbisComments(commentPacket.subarray(7), tags);
+  else if (ascii(commentPacket, 0, 8) === 'OpusTags') parseVorbisComments(commentPacket.subarray(8), tags);
+  return tags;
+};
+
+/**
+ * Reads title, artist, album and embedded artwork from ID3v2 (MP3) and
+ * Vorbis comment (FLAC, Ogg) tags. Other formats, and files without tags,
+ * give an empty result rather than an error.
+ */
+export const readAudioTags = async (file: Blob): Promise<AudioTags> => {
+  try {
+    const header = new Uint8Array(await file.slice(0, 10).arrayBuffer());
+    if (ascii(header, 0, 3) === 'ID3') {
+      const tagSize = 10 + synchsafe(header, 6);
+      return parseId3(new Uint8Array(await file.slice(0, tagSize).arrayBuffer()));
+    }
+    const bytes = new Uint8Array(await file.slice(0, TAG_SEARCH_LIMIT).arrayBuffer());
+    if (ascii(header, 0, 4) === 'fLaC') return parseFlac(bytes);
+    if (ascii(header, 0, 4) === 'OggS') return parseOgg(bytes);
+  } catch (error) {
+    console.warn("Failed to read audio tags", error);
+  }
+  return {};
+};
@@ -0,0 +1,47 @@
+import type { PlayerAdapter } from './playerAdapter';
+
+// How often the volumes move during a fade.
+const FADE_STEP_MS = 50;
+
+export interface Crossfade {
+  /** Ends the fade at once: the outgoing player is done with and the incoming one is at full volume. */
+  finish(): void;
+}
+
+/**
+ * Fades `outgoing` out while `incoming` fades in, over `seconds`. The volumes
+ * follow an equal-power curve, so the mix doesn't dip in the middle. The
+ * target volume is read on every step, so turning the volume up or down
+ * mid-fade takes effect straight away. `onDone` runs once, when the fade
+ * completes or is finished early; releasing the outgoing player is up to it.
+ */
+export const startCrossfade = (
+  outgoing: PlayerAdapter,
+  incoming: PlayerAdapter,
+  seconds: number,
+  getVolume: () => number,
+  onDone: () => void
+): Crossfade => {
+  const startedAt = Date.now();
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const finish = () => {
+    if (timer === null) return;
+    clearInterval(timer);
+    timer = null;
+    incoming.setVolume(getVolume());
+    onDone();
+  };
+
+  const step = () => {
+    const progress = Math.min((Date.now() - startedAt) / (seconds * 1000), 1);
+    const angle = progress * Math.PI / 2;
+    outgoing.setVolume(Math.round(getVolume() * Math.cos(angle)));
+    incoming.setVolume(Math.round(getVolume() * Math.sin(angle)));
+    if (progress >= 1) finish();
+  };
+
+  timer = setInterval(step, FADE_STEP_MS);
+  step();
+  return { finish };
+};
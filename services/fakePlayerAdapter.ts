@@ -0,0 +1,89 @@
+import { createPlayerEvents, type PlayerAdapter, type PlayerState } from './playerAdapter';
+
+// How often the clock moves when the fake runs in real time.
+const REAL_TIME_TICK_MS = 250;
+
+interface FakePlayerOptions {
+  durations?: Record<string, number>; // Seconds per source
+  defaultDuration?: number;
+  failingSources?: string[]; // Sources that report an error instead of playing
+  realTime?: boolean; // Let the clock run by itself instead of only through advance()
+}
+
+export type FakePlayerAdapter = PlayerAdapter & {
+  /** Moves the clock forward while playing, ending the track when it runs out. */
+  advance(seconds: number): void;
+  getSource(): string | null;
+};
+
+/** An in-memory player with a simulated clock, for developing without network access. */
+export const createFakePlayerAdapter = (options: FakePlayerOptions = {}): FakePlayerAdapter => {
+  const { durations = {}, defaultDuration = 180, failingSources = [], realTime = false } = options;
+  const events = createPlayerEvents();
+  let source: string | null = null;
+  let state: PlayerState = 'unstarted';
+  let time = 0;
+  let volume = 100;
+  let clock: ReturnType<typeof setInterval> | null = null;
+
+  const duration = () => source === null ? 0 : durations[source] ?? defaultDuration;
+
+  const setState = (next: PlayerState) => {
+    if (state === next) return;
+    state = next;
+    events.emitState(next);
+  };
+
+  const advance = (seconds: number) => {
+    if (state !== 'playing') return;
+    time = Math.min(time + seconds, duration());
+    if (time >= duration()) setState('ended');
+  };
+
+  if (realTime) clock = setInterval(() => advance(REAL_TIME_TICK_MS / 1000), REAL_TIME_TICK_MS);
+
+  return {
+    load(next, startSeconds = 0) {
+      source = next;
+      time = startSeconds;
+      state = 'unstarted';
+      if (failingSources.includes(next)) {
+        events.emitError({ code: 'fake-error', message: "This song couldn't be played." });
+        return;
+      }
+      setState('playing');
+    },
+    preload(next, startSeconds = 0) {
+      source = next;
+      time = startSeconds;
+      state = 'unstarted';
+      if (failingSources.includes(next)) events.emitError({ code: 'fake-error', message: "This song couldn't be played." });
+    },
+    play() {
+      if (source === null) return;
+      if (state === 'ended') time = 0;
+      setState('playing');
+    },
+    pause() {
+      if (state === 'playing' || state === 'buffering') setState('paused');
+    },
+    seek(seconds) {
+      time = Math.min(Math.max(seconds, 0), duration());
+    },
+    setVolume(next) { volume = next; },
+    getVolume: () => volume,
+    getCurrentTime: () => time,
+    getDuration: duration,
+    getState: () => state,
+    onStateChange: events.onStateChange,
+    onError: events.onError,
+    destroy() {
+      if (clock) clearInterval(clock);
+      events.clear();
+      source = null;
+      state = 'unstarted';
+    },
+    advance,
+    getSource: () => source,
+  };
+};
@@ -0,0 +1,63 @@
+import type { Language } from '../types';
+
+// Each language in its own name, as the Language setting lists them.
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+  de: 'Deutsch',
+  ja: '日本語',
+};
+
+type Translations = Record<Exclude<Language, 'en'>, string>;
+
+// Menu and screen labels, keyed by their English text.
+const TRANSLATIONS: Record<string, Translations> = {
+  'Resume': { es: 'Reanudar', fr: 'Reprendre', de: 'Fortsetzen', ja: '再開' },
+  'Playlists': { es: 'Listas', fr: 'Listes de lecture', de: 'Playlists', ja: 'プレイリスト' },
+  'Music': { es: 'Música', fr: 'Musique', de: 'Musik', ja: 'ミュージック' },
+  'Add Songs': { es: 'Añadir canciones', fr: 'Ajouter des morceaux', de: 'Titel hinzufügen', ja: '曲を追加' },
+  'Now Playing': { es: 'Reproduciendo', fr: 'À l’écoute', de: 'Aktueller Titel', ja: '再生中' },
+  'Up Next': { es: 'A continuación', fr: 'À suivre', de: 'Als Nächstes', ja: '次に再生' },
+  'Library': { es: 'Biblioteca', fr: 'Bibliothèque', de: 'Mediathek', ja: 'ライブラリ' },
+  'Controls': { es: 'Controles', fr: 'Commandes', de: 'Steuerung', ja: '操作' },
+  'Settings': { es: 'Ajustes', fr: 'Réglages', de: 'Einstellungen', ja: '設定' },
+  'Songs': { es: 'Canciones', fr: 'Morceaux', de: 'Titel', ja: '曲' },
+  'Artists': { es: 'Artistas', fr: 'Artistes', de: 'Interpreten', ja: 'アーティスト' },
+  'Albums': { es: 'Álbumes', fr: 'Albums', de: 'Alben', ja: 'アルバム' },
+  'Search': { es: 'Buscar', fr: 'Rechercher', de: 'Suchen', ja: '検索' },
+  'Lyrics': { es: 'Letra', fr: 'Paroles', de: 'Liedtext', ja: '歌詞' },
+  'Skin': { es: 'Aspecto', fr: 'Habillage', de: 'Design', ja: 'スキン' },
+  'Click Sound': { es: 'Sonido de clic', fr: 'Son des clics', de: 'Klickton', ja: 'クリック音' },
+  'Click Volume': { es: 'Volumen del clic', fr: 'Volume des clics', de: 'Klicklautstärke', ja: 'クリック音量' },
+  'Wheel Sensitivity': { es: 'Sensibilidad de la rueda', fr: 'Sensibilité de la molette', de: 'Radempfindlichkeit', ja: 'ホイールの感度' },
+  'Wheel Acceleration': { es: 'Aceleración de la rueda', fr: 'Accélération de la molette', de: 'Radbeschleunigung', ja: 'ホイールの加速' },
+  'Vibration': { es: 'Vibración', fr: 'Vibration', de: 'Vibration', ja: 'バイブレーション' },
+  'Default Mode': { es: 'Modo predeterminado', fr: 'Mode par défaut', de: 'Standardmodus', ja: 'デフォルトのモード' },
+  'Default Repeat': { es: 'Repetición predeterminada', fr: 'Répétition par défaut', de: 'Standard-Wiederholung', ja: 'デフォルトのリピート' },
+  'Crossfade': { es: 'Fundido', fr: 'Fondu enchaîné', de: 'Überblenden', ja: 'クロスフェード' },
+  'Backlight': { es: 'Retroiluminación', fr: 'Rétroéclairage', de: 'Beleuchtung', ja: 'バックライト' },
+  'Language': { es: 'Idioma', fr: 'Langue', de: 'Sprache', ja: '言語' },
+  'Reset All Settings': { es: 'Restablecer ajustes', fr: 'Réinitialiser les réglages', de: 'Alle Einstellungen zurücksetzen', ja: 'すべての設定をリセット' },
+  'On': { es: 'Activado', fr: 'Activé', de: 'Ein', ja: 'オン' },
+  'Off': { es: 'Desactivado', fr: 'Désactivé', de: 'Aus', ja: 'オフ' },
+  'Light': { es: 'Suave', fr: 'Légère', de: 'Leicht', ja: '弱' },
+  'Low': { es: 'Baja', fr: 'Faible', de: 'Niedrig', ja: '低' },
+  'Medium Low': { es: 'Media baja', fr: 'Moyenne faible', de: 'Mittel niedrig', ja: 'やや低' },
+  'Normal': { es: 'Normal', fr: 'Normale', de: 'Normal', ja: '標準' },
+  'Medium High': { es: 'Media alta', fr: 'Moyenne élevée', de: 'Mittel hoch', ja: 'やや高' },
+  'High': { es: 'Alta', fr: 'Élevée', de: 'Hoch', ja: '高' },
+  'Medium': { es: 'Media', fr: 'Moyenne', de: 'Mittel', ja: '中' },
+  'Strong': { es: 'Fuerte', fr: 'Forte', de: 'Stark', ja: '強' },
+  'Audio': { es: 'Audio', fr: 'Audio', de: 'Audio', ja: 'オーディオ' },
+  'Video': { es: 'Vídeo', fr: 'Vidéo', de: 'Video', ja: 'ビデオ' },
+  'One': { es: 'Una', fr: 'Un morceau', de: 'Einen Titel', ja: '1曲' },
+  'All': { es: 'Todas', fr: 'Tous', de: 'Alle', ja: 'すべて' },
+  'Always On': { es: 'Siempre', fr: 'Toujours', de: 'Immer an', ja: '常にオン' },
+  'Yes': { es: 'Sí', fr: 'Oui', de: 'Ja', ja: 'はい' },
+  'No': { es: 'No', fr: 'Non', de: 'Nein', ja: 'いいえ' },
+};
+
+/** A label in the chosen language. Labels without a translation, like song titles, are shown as they are. */
+export const translate = (language: Language, text: string): string =>
+  language === 'en' ? text : TRANSLATIONS[text]?.[language] ?? text;
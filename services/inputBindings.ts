@@ -0,0 +1,143 @@
+import type { InputBindings, WheelAction } from '../types';
+
+// How long Select or Menu must be held to count as a long press.
+export const LONG_PRESS_DELAY_MS = 700;
+// Delay before a held direction starts repeating, and the interval between repeats.
+export const REPEAT_DELAY_MS = 400;
+export const REPEAT_INTERVAL_MS = 120;
+// How far a stick must be pushed before it counts as a direction.
+export const STICK_DEADZONE = 0.5;
+
+const STORAGE_KEY = 'inputBindings';
+
+export const WHEEL_ACTIONS: WheelAction[] = ['menu', 'menu-long-press', 'center', 'center-long-press', 'prev', 'next', 'play-pause'];
+
+// Buttons that act on release, so that holding them can trigger their long press instead.
+export const LONG_PRESS_ACTIONS: Partial<Record<WheelAction, WheelAction>> = {
+  'menu': 'menu-long-press',
+  'center': 'center-long-press',
+};
+
+export const WHEEL_ACTION_LABELS: Record<WheelAction, string> = {
+  'menu': 'Menu',
+  'menu-long-press': 'Menu (Hold)',
+  'center': 'Select',
+  'center-long-press': 'Select (Hold)',
+  'prev': 'Previous / Up',
+  'next': 'Next / Down',
+  'play-pause': 'Play / Pause',
+};
+
+// Button indices follow the W3C "standard" gamepad mapping.
+export const DEFAULT_INPUT_BINDINGS: InputBindings = {
+  keys: {
+    'menu': ['Escape', 'Backspace'],
+    'menu-long-press': ['Home'],
+    'center': ['Enter'],
+    'center-long-press': ['Delete'],
+    'prev': ['ArrowUp', 'ArrowLeft'],
+    'next': ['ArrowDown', 'ArrowRight'],
+    'play-pause': [' '],
+  },
+  gamepadButtons: {
+    'menu': [1],
+    'menu-long-press': [8],
+    'center': [0],
+    'center-long-press': [3],
+    'prev': [12, 14, 4],
+    'next': [13, 15, 5],
+    'play-pause': [9],
+  },
+};
+
+const GAMEPAD_BUTTON_NAMES: Record<number, string> = {
+  0: 'A', 1: 'B', 2: 'X', 3: 'Y', 4: 'LB', 5: 'RB', 6: 'LT', 7: 'RT',
+  8: 'Back', 9: 'Start', 10: 'L3', 11: 'R3',
+  12: 'D-pad Up', 13: 'D-pad Down', 14: 'D-pad Left', 15: 'D-pad Right',
+};
+
+const isBindingList = <T>(value: unknown, itemType: 'string' | 'number'): value is T[] =>
+  Array.isArray(value) && value.every(item => typeof item === itemType);
+
+export const loadInputBindings = (): InputBindings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_INPUT_BINDINGS;
+    const parsed = JSON.parse(saved);
+    // Merge per action so bindings saved before an action existed still pick up its defaults.
+    const bindings: InputBindings = { keys: { ...DEFAULT_INPUT_BINDINGS.keys }, gamepadButtons: { ...DEFAULT_INPUT_BINDINGS.gamepadButtons } };
+    for (const action of WHEEL_ACTIONS) {
+      if (isBindingList<string>(parsed?.keys?.[action], 'string')) bindings.keys[action] = parsed.keys[action];
+      if (isBindingList<number>(parsed?.gamepadButtons?.[action], 'number')) bindings.gamepadButtons[action] = parsed.gamepadButtons[action];
+    }
+    return bindings;
+  } catch (error) {
+    console.error("Failed to parse input bindings from localStorage", error);
+    return DEFAULT_INPUT_BINDINGS;
+  }
+};
+
+export const saveInputBindings = (bindings: InputBindings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+};
+
+export const findActionForKey = (bindings: InputBindings, key: string): WheelAction | null =>
+  WHEEL_ACTIONS.find(action => bindings.keys[action].includes(key)) ?? null;
+
+export const findActionForButton = (bindings: InputBindings, button: number): WheelAction | null =>
+  WHEEL_ACTIONS.find(action => bindings.gamepadButtons[action].includes(button)) ?? null;
+
+/** The other action whose only key this is, which binding it to `action` would leave with no key at all. */
+export const findKeyConflict = (bindings: InputBindings, action: WheelAction, key: string): WheelAction | null =>
+  WHEEL_ACTIONS.find(other => other !== action && bindings.keys[other].length === 1 && bindings.keys[other][0] === key) ?? null;
+
+export const findButtonConflict = (bindings: InputBindings, action: WheelAction, button: number): WheelAction | null =>
+  WHEEL_ACTIONS.find(other => other !== action && bindings.gamepadButtons[other].length === 1 && bindings.gamepadButtons[other][0] === button) ?? null;
+
+/**
+ * Binds a key to an action, replacing the action's previous keys and
+ * unbinding the key from any other action so one key never fires two actions.
+ * A key that is another action's only key is refused and the bindings are
+ * returned unchanged, so no action (Menu and Select above all) can be locked out.
+ */
+export const rebindKey = (bindings: InputBindings, action: WheelAction, key: string): InputBindings => {
+  if (findKeyConflict(bindings, action, key)) return bindings;
+  const keys = { ...bindings.keys };
+  for (const other of WHEEL_ACTIONS) {
+    keys[other] = keys[other].filter(k => k !== key);
+  }
+  keys[action] = [key];
+  return { ...bindings, keys };
+};
+
+export const rebindButton = (bindings: InputBindings, action: WheelAction, button: number): InputBindings => {
+  if (findButtonConflict(bindings, action, button)) return bindings;
+  const gamepadButtons = { ...bindings.gamepadButtons };
+  for (const other of WHEEL_ACTIONS) {
+    gamepadButtons[other] = gamepadButtons[other].filter(b => b !== button);
+  }
+  gamepadButtons[action] = [button];
+  return { ...bindings, gamepadButtons };
+};
+
+export const describeKey = (key: string): string => {
+  switch (key) {
+    case ' ': return 'Space';
+    case 'ArrowUp': return '↑';
+    case 'ArrowDown': return '↓';
+    case 'ArrowLeft': return '←';
+    case 'ArrowRight': return '→';
+    case 'Escape': return 'Esc';
+    default: return key.length === 1 ? key.toUpperCase() : key;
+  }
+};
+
+export const describeButton = (button: number): string => GAMEPAD_BUTTON_NAMES[button] ?? `Button ${button}`;
+
+export const describeBindings = (bindings: InputBindings, action: WheelAction): string => {
+  const parts = [
+    ...bindings.keys[action].map(describeKey),
+    ...bindings.gamepadButtons[action].map(describeButton),
+  ];
+  return parts.length > 0 ? parts.join(', ') : 'Unbound';
+};
@@ -0,0 +1,78 @@
+import type { HistoryEntry, LibraryCommand, Playlist, Song } from '../types';
+
+// Oldest entries are dropped beyond this many undo steps.
+export const HISTORY_LIMIT = 30;
+
+export interface LibraryHistory {
+  undo: HistoryEntry[]; // Most recent last
+  redo: HistoryEntry[]; // Most recently undone last
+}
+
+export const EMPTY_HISTORY: LibraryHistory = { undo: [], redo: [] };
+
+const updatePlaylist = (playlists: Playlist[], playlistId: string, update: (playlist: Playlist) => Playlist) =>
+  playlists.map(p => p.id === playlistId ? update(p) : p);
+
+/**
+ * Applies a command to the current library. Commands carry enough data to be
+ * replayed against a library that has changed in the meantime (e.g. by
+ * metadata backfill); if their target is gone they leave it untouched.
+ */
+export const applyLibraryCommand = (playlists: Playlist[], command: LibraryCommand): Playlist[] => {
+  switch (command.type) {
+    case 'delete-song':
+      return updatePlaylist(playlists, command.playlistId, p => ({ ...p, songs: p.songs.filter((_, i) => i !== command.index) }));
+    case 'insert-song':
+      return updatePlaylist(playlists, command.playlistId, p => {
+        const songs = [...p.songs];
+        songs.splice(Math.min(command.index, songs.length), 0, command.song);
+        return { ...p, songs };
+      });
+    case 'delete-playlist':
+      return playlists.filter(p => p.id !== command.playlist.id);
+    case 'insert-playlist': {
+      if (playlists.some(p => p.id === command.playlist.id)) return playlists;
+      const restored = [...playlists];
+      restored.splice(Math.min(command.index, restored.length), 0, command.playlist);
+      return restored;
+    }
+    case 'move-song':
+      return updatePlaylist(playlists, command.playlistId, p => {
+        if (command.from >= p.songs.length || command.to >= p.songs.length) return p;
+        const songs = [...p.songs];
+        const [moved] = songs.splice(command.from, 1);
+        songs.splice(command.to, 0, moved);
+        return { ...p, songs };
+      });
+  }
+};
+
+export const invertLibraryCommand = (command: LibraryCommand): LibraryCommand => {
+  switch (command.type) {
+    case 'delete-song': return { ...command, type: 'insert-song' };
+    case 'insert-song': return { ...command, type: 'delete-song' };
+    case 'delete-playlist': return { ...command, type: 'insert-playlist' };
+    case 'insert-playlist': return { ...command, type: 'delete-playlist' };
+    case 'move-song': return { ...command, from: command.to, to: command.from };
+  }
+};
+
+export const pushHistoryEntry = (history: LibraryHistory, entry: HistoryEntry): LibraryHistory => ({
+  undo: [...history.undo, entry].slice(-HISTORY_LIMIT),
+  redo: [],
+});
+
+/** Songs that undoing or redoing could bring back into the library. */
+export const getHistorySongs = (history: LibraryHistory): Song[] =>
+  [...history.undo, ...history.redo].flatMap(({ command }) => {
+    switch (command.type) {
+      case 'delete-song':
+      case 'insert-song':
+        return [command.song];
+      case 'delete-playlist':
+      case 'insert-playlist':
+        return command.playlist.songs;
+      case 'move-song':
+        return [];
+    }
+  });
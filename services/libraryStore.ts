@@ -0,0 +1,327 @@
+import type { LocalAudioFile, Playlist, Theme } from '../types';
+import { validatePlaylist } from './libraryTransfer';
+
+const DB_NAME = 'retro-ipod';
+const PLAYLISTS_STORE = 'playlists';
+const SETTINGS_STORE = 'settings';
+const QUARANTINE_STORE = 'quarantine';
+const AUDIO_FILES_STORE = 'audioFiles';
+// Keys the app used before the library moved to IndexedDB.
+const LEGACY_PLAYLISTS_KEY = 'playlists';
+const LEGACY_THEME_KEY = 'theme';
+const FALLBACK_QUARANTINE_KEY = 'playlistsQuarantine';
+// Playlist edits arrive in bursts (drag reordering fires on every drag-enter), so writes wait for a pause.
+const SAVE_DEBOUNCE_MS = 400;
+
+export interface LibrarySnapshot {
+  playlists: Playlist[];
+  theme: Theme | null;
+  quarantinedCount: number; // Records set aside while loading because they could not be read
+}
+
+export interface LibraryStore {
+  load(): Promise<LibrarySnapshot>;
+  /** Queues the playlists to be written; only playlists whose object changed since the last write are saved. */
+  savePlaylists(playlists: Playlist[]): void;
+  saveTheme(theme: Theme): void;
+  /** Writes anything still waiting for the debounce timer. */
+  flush(): Promise<void>;
+  /** Whether local audio files can be kept at all; where they can't, saveAudioFiles always rejects. */
+  supportsAudioFiles: boolean;
+  /** Stores local audio files for offline playback; rejects where they can't be kept. */
+  saveAudioFiles(files: LocalAudioFile[]): Promise<void>;
+  loadAudioFile(id: string): Promise<LocalAudioFile | null>;
+  listAudioFileIds(): Promise<string[]>;
+  deleteAudioFiles(ids: string[]): Promise<void>;
+}
+
+interface QuarantineRecord {
+  source: string; // Where the record came from, e.g. "playlists" or "localStorage:playlists"
+  key: string | null;
+  value: unknown;
+  reason: string;
+  quarantinedAt: string; // ISO timestamp
+}
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+
+const isTheme = (value: unknown): value is Theme => typeof value === 'string' && value !== '';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isLocalAudioFile = (value: unknown): value is LocalAudioFile =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string' && value.audio instanceof Blob
+  && (value.artwork === undefined || value.artwork instanceof Blob);
+
+const describeError = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+const quarantine = (source: string, key: string | null, value: unknown, error: unknown): QuarantineRecord => {
+  console.warn(`Quarantined unreadable record from ${source}`, error);
+  return { source, key, value, reason: describeError(error), quarantinedAt: new Date().toISOString() };
+};
+
+/** Splits stored playlists into readable ones and quarantine records for the rest. */
+const checkPlaylists = (values: unknown[], source: string) => {
+  const playlists: Playlist[] = [];
+  const rejected: QuarantineRecord[] = [];
+  values.forEach((value, i) => {
+    try {
+      playlists.push(validatePlaylist(value, `Playlist ${i + 1}`));
+    } catch (error) {
+      const key = isObject(value) && typeof value.id === 'string' ? value.id : null;
+      rejected.push(quarantine(source, key, value, error));
+    }
+  });
+  return { playlists, rejected };
+};
+
+const sortByOrder = (playlists: Playlist[], order: unknown): Playlist[] => {
+  const ids = Array.isArray(order) ? order : [];
+  const rank = (p: Playlist) => {
+    const index = ids.indexOf(p.id);
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+  };
+  return [...playlists].sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+};
+
+/**
+ * Schema migrations, applied in order from the database's current version.
+ * The database version is the number of entries, so a new migration is
+ * added by appending to this list. Never edit an existing entry.
+ */
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // v1: initial schema, seeded once from the old localStorage keys.
+  (db, tx) => {
+    db.createObjectStore(PLAYLISTS_STORE, { keyPath: 'id' });
+    db.createObjectStore(SETTINGS_STORE);
+    db.createObjectStore(QUARANTINE_STORE, { autoIncrement: true });
+
+    const playlistsStore = tx.objectStore(PLAYLISTS_STORE);
+    const settingsStore = tx.objectStore(SETTINGS_STORE);
+    const quarantineStore = tx.objectStore(QUARANTINE_STORE);
+
+    const savedPlaylists = localStorage.getItem(LEGACY_PLAYLISTS_KEY);
+    if (savedPlaylists) {
+      const source = `localStorage:${LEGACY_PLAYLISTS_KEY}`;
+      try {
+        const parsed = JSON.parse(savedPlaylists);
+        if (!Array.isArray(parsed)) throw new Error('Saved playlists are not a list.');
+        const { playlists, rejected } = checkPlaylists(parsed, source);
+        playlists.forEach(p => playlistsStore.put(p));
+        rejected.forEach(record => quarantineStore.add(record));
+        settingsStore.put(playlists.map(p => p.id), 'playlistOrder');
+      } catch (error) {
+        quarantineStore.add(quarantine(source, null, savedPlaylists, error));
+      }
+    }
+
+    const savedTheme = localStorage.getItem(LEGACY_THEME_KEY);
+    if (isTheme(savedTheme)) settingsStore.put(savedTheme, 'theme');
+  },
+  // v2: local audio files, stored as blobs next to the playlists that reference them.
+  (db) => {
+    db.createObjectStore(AUDIO_FILES_STORE, { keyPath: 'id' });
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+const openDatabase = (): Promise<{ db: IDBDatabase; migratedFrom: number | null }> =>
+  new Promise((resolve, reject) => {
+    let migratedFrom: number | null = null;
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      migratedFrom = event.oldVersion;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](request.result, request.transaction!);
+      }
+    };
+    request.onsuccess = () => resolve({ db: request.result, migratedFrom });
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('Library database upgrade is waiting for other tabs to close.');
+  });
+
+const createDebouncedWriter = (write: (playlists: Playlist[]) => Promise<void>) => {
+  let pending: Playlist[] | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let writing: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (pending) {
+      const next = pending;
+      pending = null;
+      // Chain writes so a slow transaction never races the one after it.
+      writing = writing.then(() => write(next)).catch(error => console.error("Failed to save playlists", error));
+    }
+    return writing;
+  };
+
+  const schedule = (playlists: Playlist[]) => {
+    pending = playlists;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, SAVE_DEBOUNCE_MS);
+  };
+
+  return { schedule, flush };
+};
+
+const createIndexedDbStore = (db: IDBDatabase): LibraryStore => {
+  // What the database holds, as of the last successful write; diffed against to find changes.
+  let persisted: Playlist[] = [];
+
+  const writer = createDebouncedWriter(async (next) => {
+    const previousById = new Map(persisted.map(p => [p.id, p]));
+    const nextIds = new Set(next.map(p => p.id));
+    const tx = db.transaction([PLAYLISTS_STORE, SETTINGS_STORE], 'readwrite');
+    const playlistsStore = tx.objectStore(PLAYLISTS_STORE);
+
+    next.forEach(p => {
+      if (previousById.get(p.id) !== p) playlistsStore.put(p);
+    });
+    previousById.forEach((_, id) => {
+      if (!nextIds.has(id)) playlistsStore.delete(id);
+    });
+    const orderChanged = next.length !== persisted.length || next.some((p, i) => persisted[i].id !== p.id);
+    if (orderChanged) tx.objectStore(SETTINGS_STORE).put(next.map(p => p.id), 'playlistOrder');
+
+    await transactionDone(tx);
+    persisted = next;
+  });
+
+  return {
+    async load() {
+      const tx = db.transaction([PLAYLISTS_STORE, SETTINGS_STORE], 'readonly');
+      const [records, order, theme] = await Promise.all([
+        promisify(tx.objectStore(PLAYLISTS_STORE).getAll()),
+        promisify(tx.objectStore(SETTINGS_STORE).get('playlistOrder')),
+        promisify(tx.objectStore(SETTINGS_STORE).get('theme')),
+      ]);
+
+      const { playlists, rejected } = checkPlaylists(records, PLAYLISTS_STORE);
+      if (rejected.length > 0) {
+        // Move unreadable records aside instead of dropping the whole library.
+        const repairTx = db.transaction([PLAYLISTS_STORE, QUARANTINE_STORE], 'readwrite');
+        rejected.forEach(record => {
+          repairTx.objectStore(QUARANTINE_STORE).add(record);
+          if (record.key !== null) repairTx.objectStore(PLAYLISTS_STORE).delete(record.key);
+        });
+        await transactionDone(repairTx);
+      }
+
+      persisted = sortByOrder(playlists, order);
+      return { playlists: persisted, theme: isTheme(theme) ? theme : null, quarantinedCount: rejected.length };
+    },
+    savePlaylists: writer.schedule,
+    saveTheme(theme) {
+      const tx = db.transaction(SETTINGS_STORE, 'readwrite');
+      tx.objectStore(SETTINGS_STORE).put(theme, 'theme');
+      transactionDone(tx).catch(error => console.error("Failed to save theme", error));
+    },
+    flush: writer.flush,
+    supportsAudioFiles: true,
+    async saveAudioFiles(files) {
+      const tx = db.transaction(AUDIO_FILES_STORE, 'readwrite');
+      files.forEach(file => tx.objectStore(AUDIO_FILES_STORE).put(file));
+      await transactionDone(tx);
+    },
+    async loadAudioFile(id) {
+      const tx = db.transaction(AUDIO_FILES_STORE, 'readonly');
+      const record: unknown = await promisify(tx.objectStore(AUDIO_FILES_STORE).get(id));
+      if (record === undefined) return null;
+      // A damaged record plays as a missing file rather than reaching the player unchecked.
+      if (!isLocalAudioFile(record)) {
+        console.warn(`Ignoring unreadable audio file record "${id}"`);
+        return null;
+      }
+      return record;
+    },
+    async listAudioFileIds() {
+      const tx = db.transaction(AUDIO_FILES_STORE, 'readonly');
+      const keys = await promisify(tx.objectStore(AUDIO_FILES_STORE).getAllKeys());
+      return keys.filter((key): key is string => typeof key === 'string');
+    },
+    async deleteAudioFiles(ids) {
+      const tx = db.transaction(AUDIO_FILES_STORE, 'readwrite');
+      ids.forEach(id => tx.objectStore(AUDIO_FILES_STORE).delete(id));
+      await transactionDone(tx);
+    },
+  };
+};
+
+/** Keeps the app usable where IndexedDB isn't available, using the pre-IndexedDB localStorage keys. */
+const createLocalStorageStore = (): LibraryStore => {
+  const setAside = (records: QuarantineRecord[]) => {
+    const saved = JSON.parse(localStorage.getItem(FALLBACK_QUARANTINE_KEY) ?? '[]');
+    localStorage.setItem(FALLBACK_QUARANTINE_KEY, JSON.stringify([...saved, ...records]));
+  };
+
+  const writer = createDebouncedWriter(async (next) => {
+    localStorage.setItem(LEGACY_PLAYLISTS_KEY, JSON.stringify(next));
+  });
+
+  return {
+    async load() {
+      const saved = localStorage.getItem(LEGACY_PLAYLISTS_KEY);
+      const savedTheme = localStorage.getItem(LEGACY_THEME_KEY);
+      const theme = isTheme(savedTheme) ? savedTheme : null;
+      let values: unknown[] = [];
+      try {
+        const parsed = saved ? JSON.parse(saved) : [];
+        if (!Array.isArray(parsed)) throw new Error('Saved playlists are not a list.');
+        values = parsed;
+      } catch (error) {
+        setAside([quarantine(LEGACY_PLAYLISTS_KEY, null, saved, error)]);
+        return { playlists: [], theme, quarantinedCount: 1 };
+      }
+      const { playlists, rejected } = checkPlaylists(values, LEGACY_PLAYLISTS_KEY);
+      if (rejected.length > 0) setAside(rejected);
+      return { playlists, theme, quarantinedCount: rejected.length };
+    },
+    savePlaylists: writer.schedule,
+    saveTheme(theme) {
+      localStorage.setItem(LEGACY_THEME_KEY, theme);
+    },
+    flush: writer.flush,
+    supportsAudioFiles: false,
+    async saveAudioFiles() {
+      throw new Error("Local audio files need IndexedDB, which isn't available in this browser.");
+    },
+    async loadAudioFile() {
+      return null;
+    },
+    async listAudioFileIds() {
+      return [];
+    },
+    async deleteAudioFiles() {},
+  };
+};
+
+export const openLibraryStore = async (): Promise<LibraryStore> => {
+  if (typeof indexedDB === 'undefined') return createLocalStorageStore();
+  try {
+    const { db, migratedFrom } = await openDatabase();
+    if (migratedFrom === 0) {
+      // The library now lives in IndexedDB; drop the old copies so they can't drift out of date.
+      localStorage.removeItem(LEGACY_PLAYLISTS_KEY);
+      localStorage.removeItem(LEGACY_THEME_KEY);
+    }
+    return createIndexedDbStore(db);
+  } catch (error) {
+    console.error("Failed to open the library database, falling back to localStorage", error);
+    return createLocalStorageStore();
+  }
+};
@@ -0,0 +1,213 @@
+import type { InputBindings, LibraryExport, LibraryMergeReport, LibrarySettings, Playlist, SmartPlaylistRules, Song } from '../types';
+import { DEFAULT_INPUT_BINDINGS, WHEEL_ACTIONS } from './inputBindings';
+import { isLocalSong } from './localAudio';
+import { readSettings } from './settings';
+import { createSmartRule, getSmartRuleValueKeys, SMART_PLAYLIST_SORTS, SMART_RULE_FIELDS } from './smartPlaylists';
+
+export const LIBRARY_EXPORT_FORMAT = 'retro-ipod-library';
+export const LIBRARY_EXPORT_VERSION = 1;
+
+export class LibraryImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LibraryImportError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateSong = (value: unknown, path: string): Song => {
+  if (!isObject(value)) throw new LibraryImportError(`${path} is not a song.`);
+  if (value.source === 'local') {
+    if (typeof value.id !== 'string' || !value.id.startsWith('local-')) throw new LibraryImportError(`${path} has an invalid local file ID.`);
+  } else if (typeof value.id !== 'string' || value.id.length !== 11) {
+    throw new LibraryImportError(`${path} has an invalid YouTube ID.`);
+  }
+  if (typeof value.title !== 'string') throw new LibraryImportError(`${path} is missing a title.`);
+  return value as unknown as Song;
+};
+
+// Narrows a value to one of a list of string literals.
+const isOneOf = <T extends string>(list: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (list as readonly string[]).includes(value);
+
+const validateSmartRules = (value: unknown, path: string): SmartPlaylistRules => {
+  if (!isObject(value) || !Array.isArray(value.rules)) throw new LibraryImportError(`${path} has invalid smart playlist rules.`);
+  if (value.match !== 'all' && value.match !== 'any') throw new LibraryImportError(`${path} has an unknown rule match.`);
+  if (!isOneOf(SMART_PLAYLIST_SORTS, value.sort)) throw new LibraryImportError(`${path} has an unknown sort.`);
+  if (value.limit !== null && (typeof value.limit !== 'number' || value.limit < 1)) throw new LibraryImportError(`${path} has an invalid limit.`);
+  value.rules.forEach((rule, i) => {
+    if (!isObject(rule) || !isOneOf(SMART_RULE_FIELDS, rule.field)) throw new LibraryImportError(`${path}, rule ${i + 1} is unknown.`);
+    const valueKeys = getSmartRuleValueKeys(createSmartRule(rule.field));
+    if (!valueKeys.every(key => typeof rule[key] === (key === 'contains' ? 'string' : 'number'))) {
+      throw new LibraryImportError(`${path}, rule ${i + 1} has invalid values.`);
+    }
+  });
+  return value as unknown as SmartPlaylistRules;
+};
+
+export const validatePlaylist = (value: unknown, path: string): Playlist => {
+  if (!isObject(value)) throw new LibraryImportError(`${path} is not a playlist.`);
+  if (typeof value.id !== 'string' || !value.id) throw new LibraryImportError(`${path} is missing an id.`);
+  if (typeof value.name !== 'string') throw new LibraryImportError(`${path} is missing a name.`);
+  if (!Array.isArray(value.songs)) throw new LibraryImportError(`${path} has no song list.`);
+  if (value.smart !== undefined) validateSmartRules(value.smart, path);
+  return {
+    ...value,
+    songs: value.songs.map((song, i) => validateSong(song, `${path}, song ${i + 1}`)),
+  } as Playlist;
+};
+
+const validateInputBindings = (value: unknown): InputBindings => {
+  const isList = (list: unknown, type: 'string' | 'number') => Array.isArray(list) && list.every(item => typeof item === type);
+  if (!isObject(value) || !isObject(value.keys) || !isObject(value.gamepadButtons)) {
+    throw new LibraryImportError('Settings contain invalid controls.');
+  }
+  const bindings: InputBindings = { keys: { ...DEFAULT_INPUT_BINDINGS.keys }, gamepadButtons: { ...DEFAULT_INPUT_BINDINGS.gamepadButtons } };
+  for (const action of WHEEL_ACTIONS) {
+    // Files exported before an action existed don't mention it; those keep its defaults.
+    if (value.keys[action] === undefined && value.gamepadButtons[action] === undefined) continue;
+    if (!isList(value.keys[action], 'string') || !isList(value.gamepadButtons[action], 'number')) {
+      throw new LibraryImportError(`Settings contain invalid controls for "${action}".`);
+    }
+    bindings.keys[action] = value.keys[action] as string[];
+    bindings.gamepadButtons[action] = value.gamepadButtons[action] as number[];
+  }
+  return bindings;
+};
+
+const validateSettings = (value: unknown): LibrarySettings => {
+  if (!isObject(value)) throw new LibraryImportError('The file has no settings section.');
+  // Any skin ID is kept; one this device doesn't have shows as Classic White.
+  if (typeof value.theme !== 'string' || !value.theme) throw new LibraryImportError('Settings contain an unknown theme.');
+  if (value.appSettings !== undefined && !isObject(value.appSettings)) throw new LibraryImportError('Settings contain invalid preferences.');
+  // Files exported before preferences were included, or before one was added, get the defaults for those.
+  const appSettings = readSettings(isObject(value.appSettings) ? value.appSettings : {});
+  return { theme: value.theme, inputBindings: validateInputBindings(value.inputBindings), appSettings };
+};
+
+/**
+ * Checks that parsed JSON is a library export this version of the app can read.
+ * Throws a LibraryImportError describing the first problem found.
+ */
+export const validateLibraryExport = (data: unknown): LibraryExport => {
+  if (!isObject(data) || data.format !== LIBRARY_EXPORT_FORMAT) {
+    throw new LibraryImportError('This is not a RetroPod library file.');
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new LibraryImportError('The library file has no valid version.');
+  }
+  if (data.version > LIBRARY_EXPORT_VERSION) {
+    throw new LibraryImportError('This library was exported by a newer version of the app.');
+  }
+  if (!Array.isArray(data.playlists)) throw new LibraryImportError('The library file has no playlists.');
+
+  return {
+    format: LIBRARY_EXPORT_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    playlists: data.playlists.map((playlist, i) => validatePlaylist(playlist, `Playlist ${i + 1}`)),
+    settings: validateSettings(data.settings),
+  };
+};
+
+export const parseLibraryExport = (text: string): LibraryExport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new LibraryImportError('The file is not valid JSON.');
+  }
+  return validateLibraryExport(data);
+};
+
+export const createLibraryExport = (playlists: Playlist[], settings: LibrarySettings): LibraryExport => ({
+  format: LIBRARY_EXPORT_FORMAT,
+  version: LIBRARY_EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  playlists,
+  settings,
+});
+
+export const downloadLibraryExport = (libraryExport: LibraryExport) => {
+  const blob = new Blob([JSON.stringify(libraryExport, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `retropod-library-${libraryExport.exportedAt.slice(0, 10)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download after click() returns, so revoking at once can cancel it.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const dedupeSongs = (songs: Song[]): { songs: Song[]; skipped: number } => {
+  const seen = new Set<string>();
+  const unique = songs.filter(song => {
+    if (seen.has(song.id)) return false;
+    seen.add(song.id);
+    return true;
+  });
+  return { songs: unique, skipped: songs.length - unique.length };
+};
+
+/**
+ * Exports don't carry the audio of local songs, so an imported local song only
+ * plays where its file is already stored, e.g. when restoring on the same device.
+ * The others are dropped rather than added as songs that can never play.
+ */
+export const dropMissingLocalSongs = (playlists: Playlist[], storedAudioFileIds: Set<string>): { playlists: Playlist[]; dropped: number } => {
+  let dropped = 0;
+  const kept = playlists.map(p => {
+    const songs = p.songs.filter(song => !isLocalSong(song) || storedAudioFileIds.has(song.id));
+    dropped += p.songs.length - songs.length;
+    return songs.length === p.songs.length ? p : { ...p, songs };
+  });
+  return { playlists: kept, dropped };
+};
+
+/**
+ * Merges imported playlists into the library. An imported playlist joins an
+ * existing one with the same id, or failing that the same name (ignoring case);
+ * its songs are appended unless that playlist already has a song with the same
+ * ID (a YouTube ID, or a local file's ID). Local songs whose file isn't stored
+ * here are skipped too. Existing playlists keep their order, and new ones are
+ * added after them.
+ */
+export const mergeLibraries = (existing: Playlist[], imported: Playlist[], storedAudioFileIds: Set<string>): { playlists: Playlist[]; report: LibraryMergeReport } => {
+  const { playlists: incoming, dropped } = dropMissingLocalSongs(imported, storedAudioFileIds);
+  const report: LibraryMergeReport = { playlistsAdded: [], playlistsMerged: [], songsAdded: 0, songsSkipped: dropped };
+  const merged = existing.map(p => ({ ...p, songs: [...p.songs] }));
+
+  for (const playlist of incoming) {
+    const nameKey = playlist.name.trim().toLowerCase();
+    const match = merged.find(p => p.id === playlist.id) ?? merged.find(p => p.name.trim().toLowerCase() === nameKey);
+
+    if (!match) {
+      const { songs, skipped } = dedupeSongs(playlist.songs);
+      merged.push({ ...playlist, songs });
+      report.playlistsAdded.push(playlist.name);
+      report.songsAdded += songs.length;
+      report.songsSkipped += skipped;
+      continue;
+    }
+
+    const existingIds = new Set(match.songs.map(s => s.id));
+    let added = 0;
+    for (const song of playlist.songs) {
+      if (existingIds.has(song.id)) {
+        report.songsSkipped++;
+      } else {
+        existingIds.add(song.id);
+        match.songs.push(song);
+        added++;
+      }
+    }
+    if (added > 0 && !report.playlistsMerged.includes(match.name)) report.playlistsMerged.push(match.name);
+    report.songsAdded += added;
+  }
+
+  return { playlists: merged, report };
+};
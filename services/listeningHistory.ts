@@ -0,0 +1,157 @@
+import type { ListeningStats, Playlist, Song, SongStats } from '../types';
+
+const STORAGE_KEY = 'listeningHistory';
+// A song counts as played after this much listening, or half its length if that is shorter.
+export const PLAY_THRESHOLD_SECONDS = 30;
+// How many songs each generated playlist holds.
+const AUTO_PLAYLIST_LIMIT = 25;
+
+export const AUTO_PLAYLIST_IDS = {
+  recentlyPlayed: 'AUTO_RECENTLY_PLAYED',
+  mostPlayed: 'AUTO_MOST_PLAYED',
+  recentlyAdded: 'AUTO_RECENTLY_ADDED',
+  neverPlayed: 'AUTO_NEVER_PLAYED',
+} as const;
+
+const EMPTY_STATS: SongStats = { playCount: 0, skipCount: 0, listenSeconds: 0 };
+
+export const loadListeningStats = (): ListeningStats => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error("Failed to parse listening history from localStorage", error);
+    return {};
+  }
+};
+
+const saveListeningStats = (stats: ListeningStats) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stats));
+  } catch (error) {
+    console.error("Failed to save listening history", error);
+  }
+};
+
+interface TrackedSong {
+  songId: string;
+  threshold: number; // Seconds of listening before it counts as a play
+  listened: number;
+  playingSince: number | null; // Date.now() when the current stretch of playback began
+  counted: boolean;
+}
+
+/**
+ * Turns player state changes into listening statistics. Listening time is
+ * measured by the wall clock between "playing" and the next pause, end or
+ * song change. Leaving a song before it counted as played records a skip.
+ */
+export const createListeningTracker = (initialStats: ListeningStats, onChange: (stats: ListeningStats) => void) => {
+  let stats = initialStats;
+  let current: TrackedSong | null = null;
+  let thresholdTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const update = (songId: string, change: (songStats: SongStats) => Partial<SongStats>) => {
+    const songStats = stats[songId] ?? EMPTY_STATS;
+    stats = { ...stats, [songId]: { ...songStats, ...change(songStats) } };
+    saveListeningStats(stats);
+    onChange(stats);
+  };
+
+  const accumulate = () => {
+    if (thresholdTimer) clearTimeout(thresholdTimer);
+    thresholdTimer = null;
+    if (!current || current.playingSince === null) return;
+    const seconds = (Date.now() - current.playingSince) / 1000;
+    current.listened += seconds;
+    current.playingSince = null;
+    update(current.songId, s => ({ listenSeconds: s.listenSeconds + seconds }));
+  };
+
+  const countPlay = () => {
+    if (!current || current.counted) return;
+    current.counted = true;
+    update(current.songId, s => ({ playCount: s.playCount + 1, lastPlayedAt: new Date().toISOString() }));
+  };
+
+  const finish = () => {
+    accumulate();
+    if (current && !current.counted) update(current.songId, s => ({ skipCount: s.skipCount + 1 }));
+    current = null;
+  };
+
+  return {
+    /** `lengthSeconds` is the song's (or clip's) playable length, when known. */
+    playing(songId: string, lengthSeconds?: number) {
+      if (current?.songId !== songId) {
+        finish();
+        current = {
+          songId,
+          threshold: lengthSeconds ? Math.min(PLAY_THRESHOLD_SECONDS, lengthSeconds / 2) : PLAY_THRESHOLD_SECONDS,
+          listened: 0,
+          playingSince: null,
+          counted: false,
+        };
+      }
+      if (current.playingSince !== null) return;
+      current.playingSince = Date.now();
+      if (!current.counted) {
+        thresholdTimer = setTimeout(countPlay, Math.max(current.threshold - current.listened, 0) * 1000);
+      }
+    },
+    paused() {
+      accumulate();
+    },
+    ended() {
+      accumulate();
+      countPlay();
+      current = null;
+    },
+    /** Records listening time so far without interrupting tracking, e.g. before the page closes. */
+    flush() {
+      if (!current || current.playingSince === null) return;
+      const { songId } = current;
+      accumulate();
+      this.playing(songId);
+    },
+  };
+};
+
+export type ListeningTracker = ReturnType<typeof createListeningTracker>;
+
+/** Stamps songs entering the library with the time they were added, for Recently Added. */
+export const markSongsAdded = (songs: Song[]): Song[] => {
+  const addedAt = new Date().toISOString();
+  return songs.map(song => song.addedAt ? song : { ...song, addedAt });
+};
+
+/** Every song in the library once, in playlist order. */
+export const getLibrarySongs = (playlists: Playlist[]): Song[] => {
+  const seen = new Map<string, Song>();
+  playlists.forEach(p => p.songs.forEach(song => {
+    if (!seen.has(song.id)) seen.set(song.id, song);
+  }));
+  return [...seen.values()];
+};
+
+/** Builds the read-only playlists generated from listening history. */
+export const buildAutoPlaylists = (playlists: Playlist[], stats: ListeningStats): Playlist[] => {
+  const songs = getLibrarySongs(playlists);
+  const statsFor = (song: Song) => stats[song.id] ?? EMPTY_STATS;
+  const played = songs.filter(song => statsFor(song).playCount > 0);
+
+  const autoPlaylist = (id: string, name: string, list: Song[]): Playlist => ({
+    id, name, songs: list.slice(0, AUTO_PLAYLIST_LIMIT), readOnly: true,
+  });
+
+  return [
+    autoPlaylist(AUTO_PLAYLIST_IDS.recentlyPlayed, 'Recently Played',
+      [...played].sort((a, b) => (statsFor(b).lastPlayedAt ?? '').localeCompare(statsFor(a).lastPlayedAt ?? ''))),
+    autoPlaylist(AUTO_PLAYLIST_IDS.mostPlayed, 'Most Played',
+      [...played].sort((a, b) => statsFor(b).playCount - statsFor(a).playCount)),
+    autoPlaylist(AUTO_PLAYLIST_IDS.recentlyAdded, 'Recently Added',
+      songs.filter(song => song.addedAt).sort((a, b) => b.addedAt!.localeCompare(a.addedAt!))),
+    autoPlaylist(AUTO_PLAYLIST_IDS.neverPlayed, 'Never Played',
+      songs.filter(song => statsFor(song).playCount === 0)),
+  ];
+};
@@ -0,0 +1,68 @@
+import type { LocalAudioFile, Song, SongListEntry } from '../types';
+import { readAudioTags } from './audioTags';
+
+const LOCAL_AUDIO_EXTENSIONS = ['mp3', 'm4a', 'ogg', 'oga', 'opus', 'flac', 'wav'];
+
+export const LOCAL_AUDIO_FILE_TYPES = [
+  ...LOCAL_AUDIO_EXTENSIONS.map(extension => `.${extension}`),
+  'audio/mpeg', 'audio/mp4', 'audio/ogg', 'audio/flac', 'audio/wav',
+].join(',');
+
+export const isLocalSong = (song: Song): boolean => song.source === 'local';
+
+const getExtension = (name: string) => name.includes('.') ? name.slice(name.lastIndexOf('.') + 1).toLowerCase() : '';
+
+export const isAudioFile = (file: File): boolean =>
+  LOCAL_AUDIO_EXTENSIONS.includes(getExtension(file.name)) || file.type.startsWith('audio/');
+
+// A file the browser stalls on counts as unplayable instead of holding up the rest of the import.
+const DURATION_TIMEOUT_MS = 5000;
+
+// Also tells us whether this browser can decode the file at all: undefined means it can't.
+const readAudioDuration = (file: Blob): Promise<number | undefined> =>
+  new Promise(resolve => {
+    const audio = new Audio();
+    const url = URL.createObjectURL(file);
+    const finish = (duration: number | undefined) => {
+      clearTimeout(timeout);
+      audio.onloadedmetadata = null;
+      audio.onerror = null;
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    const timeout = setTimeout(() => finish(undefined), DURATION_TIMEOUT_MS);
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => finish(Number.isFinite(audio.duration) ? Math.round(audio.duration) : undefined);
+    audio.onerror = () => finish(undefined);
+    audio.src = url;
+  });
+
+export interface LocalAudioImport {
+  entries: SongListEntry[]; // One per file, in the shape the bulk-add review shows
+  files: LocalAudioFile[]; // To store once the songs are added to a playlist
+}
+
+/** Turns picked or dropped files into songs, reading their tags and checking they can be played. */
+export const importLocalAudioFiles = async (files: File[]): Promise<LocalAudioImport> => {
+  const result: LocalAudioImport = { entries: [], files: [] };
+  for (const file of files) {
+    const duration = isAudioFile(file) ? await readAudioDuration(file) : undefined;
+    if (duration === undefined) {
+      result.entries.push({ text: file.name, status: 'invalid', song: null });
+      continue;
+    }
+    const tags = await readAudioTags(file);
+    const id = `local-${crypto.randomUUID()}`;
+    const song: Song = {
+      id,
+      source: 'local',
+      title: tags.title ?? file.name.replace(/\.[^.]+$/, ''),
+      artist: tags.artist,
+      album: tags.album,
+      duration,
+    };
+    result.entries.push({ text: file.name, status: 'valid', song });
+    result.files.push({ id, name: file.name, audio: file, artwork: tags.artwork });
+  }
+  return result;
+};
@@ -0,0 +1,105 @@
+const STORAGE_KEY = 'lyrics';
+
+export const LYRICS_FILE_TYPES = '.lrc,.txt,text/plain';
+
+export interface LyricLine {
+  text: string; // Empty for the instrumental gaps synced lyrics mark with a bare timestamp
+  seconds?: number; // When the line starts, in player time; missing in lyrics without timestamps
+}
+
+export interface Lyrics {
+  lines: LyricLine[];
+  synced: boolean;
+}
+
+// A line timestamp: [mm:ss], [mm:ss.xx] or [mm:ss.xxx]. Some editors write [mm:ss:xx].
+const LINE_TIMESTAMP = /^\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]\s*/;
+// The LRC header tags, such as [ar:Artist], [ti:Title] and [offset:+250]. Other bracketed lines,
+// like [Chorus: Name] or [Intro: Artist], are lyrics.
+const ID_TAG = /^\[(ar|ti|al|au|by|offset|length|re|ve|#):(.*)\]$/i;
+// Per-word timings from enhanced LRC, e.g. <00:12.34>, which are only shown a line at a time here.
+const WORD_TIMESTAMP = /<\d{1,3}:\d{1,2}(?:[.:]\d{1,3})?>\s*/g;
+
+const trimBlankLines = (lines: LyricLine[]) => {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start].text) start++;
+  while (end > start && !lines[end - 1].text) end--;
+  return lines.slice(start, end);
+};
+
+/**
+ * Reads lyrics from pasted text or an LRC file. A line may carry several
+ * timestamps (a repeated chorus written once) and becomes one line per
+ * timestamp, in time order. [offset:ms] shifts every line, positive values
+ * showing lines earlier as the LRC format defines. If any line is timestamped
+ * the lyrics are synced and lines without a usable timestamp are dropped;
+ * otherwise the text is kept as plain lyrics. Nothing here throws: malformed
+ * lines are skipped or shown as text.
+ */
+export const parseLyrics = (text: string): Lyrics => {
+  const synced: LyricLine[] = [];
+  const plain: LyricLine[] = [];
+  let offsetSeconds = 0;
+
+  for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    let line = rawLine.trim();
+    const tag = LINE_TIMESTAMP.test(line) ? null : line.match(ID_TAG);
+    if (tag) {
+      const offset = tag[1].toLowerCase() === 'offset' ? Number(tag[2].trim()) : NaN;
+      if (Number.isFinite(offset)) offsetSeconds = offset / 1000;
+      continue;
+    }
+
+    const times: number[] = [];
+    let stamp: RegExpMatchArray | null;
+    while ((stamp = line.match(LINE_TIMESTAMP))) {
+      const [matched, minutes, seconds, fraction] = stamp;
+      if (Number(seconds) < 60) {
+        times.push(Number(minutes) * 60 + Number(seconds) + (fraction ? Number(fraction) / 10 ** fraction.length : 0));
+      }
+      line = line.slice(matched.length);
+    }
+    const lyric = line.replace(WORD_TIMESTAMP, '').trim();
+    if (times.length > 0) times.forEach(seconds => synced.push({ text: lyric, seconds }));
+    // A line whose timestamps were all out of range is dropped rather than shown with them stripped.
+    else if (line === rawLine.trim()) plain.push({ text: lyric });
+  }
+
+  if (synced.length === 0) return { lines: trimBlankLines(plain), synced: false };
+  const lines = synced
+    .map(line => ({ ...line, seconds: Math.max(line.seconds! - offsetSeconds, 0) }))
+    .sort((a, b) => a.seconds - b.seconds);
+  return { lines: trimBlankLines(lines), synced: true };
+};
+
+/** The line being sung at `seconds`: the last one started by then, or -1 before the first (and always for plain lyrics). */
+export const findLyricLine = (lyrics: Lyrics, seconds: number): number => {
+  if (!lyrics.synced) return -1;
+  let index = -1;
+  while (index + 1 < lyrics.lines.length && lyrics.lines[index + 1].seconds! <= seconds) index++;
+  return index;
+};
+
+/** Lyrics as they were pasted or imported, by song ID. They are parsed when shown, so editing shows the original text. */
+export const loadLyrics = (): Record<string, string> => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : {};
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return {};
+    return Object.fromEntries(Object.entries(parsed).filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+  } catch (error) {
+    console.error("Failed to parse lyrics from localStorage", error);
+    return {};
+  }
+};
+
+export const saveLyrics = (lyrics: Record<string, string>) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(lyrics));
+};
+
+/** Attaches lyrics to a song, replacing any it had. Blank text removes them. */
+export const setSongLyrics = (lyrics: Record<string, string>, songId: string, text: string): Record<string, string> => {
+  const { [songId]: _removed, ...rest } = lyrics;
+  return text.trim() ? { ...rest, [songId]: text } : rest;
+};
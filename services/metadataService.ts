@@ -0,0 +1,135 @@
+import type { Playlist, Song, SongMetadata } from '../types';
+import { getPlaceholderTitle, getVideoUrl } from './youtubeService';
+
+const CACHE_STORAGE_KEY = 'songMetadata';
+// How long to wait before asking again about a video whose lookup failed.
+const FAILURE_RETRY_MS = 24 * 60 * 60 * 1000;
+
+/** Looks up metadata for a YouTube video. Implementations throw when the lookup fails. */
+export interface MetadataFetcher {
+  fetch(videoId: string): Promise<SongMetadata>;
+}
+
+interface CacheEntry {
+  metadata: SongMetadata;
+  resolvedAt?: number; // Set once the fetcher has answered successfully
+  failedAt?: number; // Time of the last failed lookup
+}
+
+/**
+ * Fetches titles and channel names through YouTube's public oEmbed endpoint.
+ * oEmbed doesn't expose durations; those are recorded from the player instead.
+ */
+export const createOEmbedFetcher = (): MetadataFetcher => ({
+  async fetch(videoId) {
+    const response = await fetch(`https://www.youtube.com/oembed?url=${encodeURIComponent(getVideoUrl(videoId))}&format=json`);
+    if (!response.ok) throw new Error(`oEmbed lookup for ${videoId} failed with status ${response.status}`);
+    const data = await response.json();
+    return {
+      title: typeof data.title === 'string' ? data.title : undefined,
+      channel: typeof data.author_name === 'string' ? data.author_name : undefined,
+    };
+  },
+});
+
+/** Answers from a fixed table without touching the network, for offline development. */
+export const createStubFetcher = (entries: Record<string, SongMetadata> = {}): MetadataFetcher => ({
+  async fetch(videoId) {
+    return entries[videoId] ?? { title: `Stub Song ${videoId}`, channel: 'Stub Channel', duration: 180 };
+  },
+});
+
+const loadCache = (storage: Storage): Record<string, CacheEntry> => {
+  try {
+    const saved = storage.getItem(CACHE_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error("Failed to parse song metadata cache", error);
+    return {};
+  }
+};
+
+/**
+ * Wraps a fetcher with a persistent cache and de-duplication of concurrent
+ * lookups. `resolve` never rejects: failures resolve to null so callers can
+ * keep the placeholder title and carry on.
+ */
+export const createMetadataResolver = (fetcher: MetadataFetcher, storage: Storage = localStorage) => {
+  const cache = loadCache(storage);
+  const inFlight = new Map<string, Promise<SongMetadata | null>>();
+
+  const saveCache = () => {
+    try {
+      storage.setItem(CACHE_STORAGE_KEY, JSON.stringify(cache));
+    } catch (error) {
+      console.error("Failed to save song metadata cache", error);
+    }
+  };
+
+  const resolve = (videoId: string): Promise<SongMetadata | null> => {
+    const cached = cache[videoId];
+    if (cached?.resolvedAt) return Promise.resolve(cached.metadata);
+    if (cached?.failedAt && Date.now() - cached.failedAt < FAILURE_RETRY_MS) return Promise.resolve(null);
+
+    const pending = inFlight.get(videoId);
+    if (pending) return pending;
+
+    const lookup = fetcher.fetch(videoId)
+      .then((metadata): SongMetadata => {
+        cache[videoId] = { metadata: { ...cache[videoId]?.metadata, ...metadata }, resolvedAt: Date.now() };
+        return cache[videoId].metadata;
+      })
+      .catch(error => {
+        console.warn(`Could not resolve metadata for ${videoId}`, error);
+        cache[videoId] = { metadata: cache[videoId]?.metadata ?? {}, failedAt: Date.now() };
+        return null;
+      })
+      .finally(() => {
+        inFlight.delete(videoId);
+        saveCache();
+      });
+    inFlight.set(videoId, lookup);
+    return lookup;
+  };
+
+  /** Stores metadata learned elsewhere, such as a duration reported by the player. */
+  const record = (videoId: string, metadata: SongMetadata) => {
+    cache[videoId] = { ...cache[videoId], metadata: { ...cache[videoId]?.metadata, ...metadata } };
+    saveCache();
+  };
+
+  return { resolve, record };
+};
+
+export type MetadataResolver = ReturnType<typeof createMetadataResolver>;
+
+// Set METADATA_FETCHER=stub in .env.local to develop without network access.
+export const metadataResolver = createMetadataResolver(
+  process.env.METADATA_FETCHER === 'stub' ? createStubFetcher() : createOEmbedFetcher()
+);
+
+// Local files get their details from their own tags when added.
+export const needsMetadata = (song: Song): boolean =>
+  song.source !== 'local' && (song.title === getPlaceholderTitle(song.id) || song.channel === undefined);
+
+/**
+ * Copies resolved metadata onto every copy of a video in the library. Titles
+ * are only replaced while they are still placeholders, so names the user
+ * supplied (for example from an M3U file) are kept.
+ */
+export const applySongMetadata = (playlists: Playlist[], videoId: string, metadata: SongMetadata): Playlist[] =>
+  playlists.map(p => {
+    if (!p.songs.some(s => s.id === videoId)) return p;
+    return {
+      ...p,
+      songs: p.songs.map(s => {
+        if (s.id !== videoId) return s;
+        return {
+          ...s,
+          title: metadata.title && s.title === getPlaceholderTitle(s.id) ? metadata.title : s.title,
+          channel: s.channel ?? metadata.channel,
+          duration: s.duration ?? metadata.duration,
+        };
+      }),
+    };
+  });
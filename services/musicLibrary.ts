@@ -0,0 +1,155 @@
+import type { Playlist, Song } from '../types';
+import { getLibrarySongs } from './listeningHistory';
+
+export const MUSIC_SONGS_ID = 'music:songs';
+export const MUSIC_SEARCH_ID = 'music:search';
+const UNKNOWN_ARTIST = 'Unknown Artist';
+const UNKNOWN_ALBUM = 'Unknown Album';
+
+/** A list of songs the Music browser can show and play from, e.g. one artist's songs. */
+export interface MusicCollection {
+  id: string; // "music:" prefixed, so it never clashes with a playlist
+  name: string;
+  detail: string; // Second line in lists, e.g. the album's artist
+  songs: Song[];
+}
+
+export interface MusicLibrary {
+  songs: MusicCollection; // Every song, A–Z
+  artists: MusicCollection[];
+  albums: MusicCollection[];
+  coverFlowAlbums: MusicCollection[]; // Albums named by their songs' tags; the Unknown Album groups have no cover of their own
+}
+
+// --- Artist and title ---
+
+// "Artist - Title", the way most music uploads are named.
+const ARTIST_TITLE_PATTERN = /^(.+?)\s+[-–—]\s+(.+)$/;
+
+// Auto-generated and label channels carry the artist's name with a suffix.
+const cleanChannelName = (channel: string) => channel.replace(/\s+-\s+Topic$/, '').replace(/VEVO$/i, '').trim();
+
+/** The artist and title to show for a song: file tags first, then an "Artist - Title" title, then the channel. */
+export const getSongCredits = (song: Song): { artist: string; title: string } => {
+  if (song.artist) return { artist: song.artist, title: song.title };
+  const match = song.source !== 'local' ? song.title.match(ARTIST_TITLE_PATTERN) : null;
+  if (match) return { artist: match[1].trim(), title: match[2].trim() };
+  const channel = song.channel && cleanChannelName(song.channel);
+  return { artist: channel || UNKNOWN_ARTIST, title: song.title };
+};
+
+// --- Sorting and A–Z ---
+
+// Sorted the way the iPod does: ignoring a leading "The", with anything that isn't a letter after Z.
+const getSortKey = (text: string) => text.trim().replace(/^the\s+/i, '');
+
+export const getIndexLetter = (text: string): string => {
+  const first = getSortKey(text).charAt(0).toUpperCase();
+  return first >= 'A' && first <= 'Z' ? first : '#';
+};
+
+const compareNames = (a: string, b: string) => {
+  const aLetter = getIndexLetter(a) === '#';
+  const bLetter = getIndexLetter(b) === '#';
+  if (aLetter !== bLetter) return aLetter ? 1 : -1;
+  return getSortKey(a).localeCompare(getSortKey(b), undefined, { sensitivity: 'base' });
+};
+
+const sortSongs = (songs: Song[]) =>
+  [...songs].sort((a, b) => compareNames(getSongCredits(a).title, getSongCredits(b).title));
+
+/**
+ * Where a fast spin lands: the first item of the next letter going down, or
+ * the start of the current letter (or the previous one, if already there) going up.
+ */
+export const getLetterJumpIndex = (letters: string[], index: number, direction: 1 | -1): number => {
+  const current = letters[index];
+  if (direction === 1) {
+    const next = letters.findIndex((letter, i) => i > index && letter !== current);
+    return next === -1 ? index : next;
+  }
+  let start = index > 0 && letters[index - 1] !== current ? index - 1 : index;
+  const letter = letters[start];
+  while (start > 0 && letters[start - 1] === letter) start--;
+  return start;
+};
+
+// --- Grouping ---
+
+const groupSongs = (songs: Song[], getKey: (song: Song) => string) => {
+  const groups = new Map<string, Song[]>();
+  songs.forEach(song => {
+    const key = getKey(song);
+    const group = groups.get(key);
+    if (group) group.push(song);
+    else groups.set(key, [song]);
+  });
+  return groups;
+};
+
+const countSongs = (songs: Song[]) => `${songs.length} ${songs.length === 1 ? 'song' : 'songs'}`;
+
+/** Groups every song in the library into the Music browser's lists. */
+export const buildMusicLibrary = (playlists: Playlist[]): MusicLibrary => {
+  const songs = sortSongs(getLibrarySongs(playlists));
+
+  const artists = [...groupSongs(songs, song => getSongCredits(song).artist)]
+    .map(([name, artistSongs]) => ({ id: `music:artist:${name}`, name, detail: countSongs(artistSongs), songs: artistSongs }))
+    .sort((a, b) => compareNames(a.name, b.name));
+
+  // Albums are told apart by artist too, since "Greatest Hits" isn't one album.
+  const albums = [...groupSongs(songs, song => `${getSongCredits(song).artist}\n${song.album ?? UNKNOWN_ALBUM}`)]
+    .map(([key, albumSongs]) => {
+      const [artist, name] = key.split('\n');
+      return { id: `music:album:${key}`, name, detail: artist, songs: albumSongs };
+    })
+    .sort((a, b) => compareNames(a.name, b.name) || compareNames(a.detail, b.detail));
+
+  const coverFlowAlbums = albums.filter(album => album.songs.some(song => song.album));
+  return { songs: { id: MUSIC_SONGS_ID, name: 'Songs', detail: countSongs(songs), songs }, artists, albums, coverFlowAlbums };
+};
+
+export const findMusicCollection = (library: MusicLibrary, id: string): MusicCollection | undefined =>
+  id === MUSIC_SONGS_ID ? library.songs : [...library.artists, ...library.albums].find(c => c.id === id);
+
+/** A collection as a read-only playlist, so playback can queue from it like any generated playlist. */
+export const toMusicPlaylist = (collection: MusicCollection): Playlist => ({
+  id: collection.id,
+  name: collection.name,
+  songs: collection.songs,
+  readOnly: true,
+});
+
+/** Every collection as a playlist, for finding the one a saved queue came from. */
+export const getMusicPlaylists = (library: MusicLibrary): Playlist[] =>
+  [library.songs, ...library.artists, ...library.albums].map(toMusicPlaylist);
+
+// --- Search ---
+
+// The wheel types from this strip; the last two keys edit and finish the query.
+export const SEARCH_KEYS = [...'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789', ' ', 'DELETE', 'DONE'];
+
+const matchesAllWords = (query: string, fields: (string | undefined)[]) => {
+  const text = fields.filter(Boolean).join(' ').toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => text.includes(word));
+};
+
+export interface MusicSearchResults {
+  playlists: Playlist[];
+  songs: MusicCollection; // Played from as a collection, so next and previous stay within the results
+}
+
+/** Songs (by title, artist, album or channel) and playlists (by name) matching every word of the query. */
+export const searchMusic = (library: MusicLibrary, playlists: Playlist[], query: string): MusicSearchResults => {
+  const hasQuery = query.trim() !== '';
+  const songs = hasQuery
+    ? library.songs.songs.filter(song => {
+        const { artist, title } = getSongCredits(song);
+        return matchesAllWords(query, [title, artist, song.album, song.channel]);
+      })
+    : [];
+  return {
+    playlists: hasQuery ? playlists.filter(p => matchesAllWords(query, [p.name])) : [],
+    songs: { id: MUSIC_SEARCH_ID, name: `Search: ${query.trim()}`, detail: countSongs(songs), songs },
+  };
+};
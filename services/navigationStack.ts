@@ -0,0 +1,59 @@
+import type { NavigationEntry, ScreenParams, View } from '../types';
+
+/**
+ * The screens the user has opened, root first. Menu pops back to exactly the
+ * screen and selection below, so going back never loses your place.
+ */
+export type NavigationStack = NavigationEntry[];
+
+export const ROOT_VIEW: View = 'main-menu';
+
+export const createNavigationStack = (): NavigationStack => [{ view: ROOT_VIEW, params: {}, selectedIndex: 0 }];
+
+export const getTopScreen = (stack: NavigationStack): NavigationEntry => stack[stack.length - 1];
+
+/** Opens a screen on top, inheriting the params of the one it was opened from. Opening the screen already on top replaces it. */
+export const pushScreen = (stack: NavigationStack, view: View, params: ScreenParams = {}, selectedIndex = 0): NavigationStack => {
+  const top = getTopScreen(stack);
+  const entry = { view, params: { ...top.params, ...params }, selectedIndex };
+  return top.view === view ? [...stack.slice(0, -1), entry] : [...stack, entry];
+};
+
+/** Swaps the top screen for another, for screens that only lead somewhere and shouldn't be returned to. */
+export const replaceScreen = (stack: NavigationStack, view: View, params: ScreenParams = {}, selectedIndex = 0): NavigationStack =>
+  stack.length === 1
+    ? [{ view, params, selectedIndex }]
+    : pushScreen(stack.slice(0, -1), view, params, selectedIndex);
+
+/** Goes back one screen; `selectedIndex` overrides the remembered selection, e.g. after the item it was on was removed. */
+export const popScreen = (stack: NavigationStack, selectedIndex?: number): NavigationStack => {
+  if (stack.length === 1) return stack;
+  const below = stack.slice(0, -1);
+  return selectedIndex === undefined ? below : setScreenSelection(below, selectedIndex);
+};
+
+/** Goes back to the nearest screen showing `view`, or swaps the top screen for it if it isn't open. */
+export const popToScreen = (stack: NavigationStack, view: View, selectedIndex?: number): NavigationStack => {
+  const index = stack.map(entry => entry.view).lastIndexOf(view);
+  if (index === -1) return replaceScreen(stack, view, {}, selectedIndex);
+  const target = stack.slice(0, index + 1);
+  return selectedIndex === undefined ? target : setScreenSelection(target, selectedIndex);
+};
+
+/**
+ * Closes a multi-screen flow (everything from the nearest `flowView` up) and
+ * opens `view` in its place, so Menu returns to where the flow was started.
+ */
+export const finishFlow = (stack: NavigationStack, flowView: View, view: View, params: ScreenParams = {}, selectedIndex = 0): NavigationStack => {
+  const index = stack.map(entry => entry.view).lastIndexOf(flowView);
+  const base = index === -1 ? stack.slice(0, -1) : stack.slice(0, index);
+  return base.length === 0 ? [{ view, params, selectedIndex }] : pushScreen(base, view, params, selectedIndex);
+};
+
+export const popToRoot = (stack: NavigationStack): NavigationStack => stack.slice(0, 1);
+
+export const setScreenSelection = (stack: NavigationStack, selectedIndex: number | ((prev: number) => number)): NavigationStack => {
+  const top = getTopScreen(stack);
+  const next = typeof selectedIndex === 'function' ? selectedIndex(top.selectedIndex) : selectedIndex;
+  return next === top.selectedIndex ? stack : [...stack.slice(0, -1), { ...top, selectedIndex: next }];
+};
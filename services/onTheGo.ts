@@ -0,0 +1,32 @@
+import type { Playlist, Song } from '../types';
+
+const STORAGE_KEY = 'onTheGo';
+
+export const ON_THE_GO_ID = 'ON_THE_GO';
+
+export const loadOnTheGo = (): Song[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter(song => song && typeof song.id === 'string' && typeof song.title === 'string') : [];
+  } catch (error) {
+    console.error("Failed to parse On-The-Go from localStorage", error);
+    return [];
+  }
+};
+
+export const saveOnTheGo = (songs: Song[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(songs));
+};
+
+/**
+ * The built-in On-The-Go playlist. Songs are only added from Now Playing and
+ * the list is saved or cleared as a whole, so it is read-only like the
+ * generated playlists.
+ */
+export const createOnTheGoPlaylist = (songs: Song[]): Playlist => ({
+  id: ON_THE_GO_ID,
+  name: 'On-The-Go',
+  songs,
+  readOnly: true,
+});
@@ -0,0 +1,84 @@
+import type { PlayQueue, Playlist, RepeatMode } from '../types';
+
+// Fisher-Yates shuffle algorithm
+export const shuffleArray = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+const getPlaylistSongIds = (playlist: Playlist): string[] => [...new Set(playlist.songs.map(s => s.id))];
+
+/**
+ * Builds a queue over a playlist. When shuffled, the starting song plays first
+ * and the rest follow in random order; with no starting song the whole
+ * playlist is shuffled. The playlist itself is never reordered.
+ */
+export const createPlayQueue = (playlist: Playlist, startSongId: string | null, shuffled: boolean): PlayQueue | null => {
+  const songIds = getPlaylistSongIds(playlist);
+  if (songIds.length === 0) return null;
+
+  if (!shuffled) {
+    return { playlistId: playlist.id, songIds, position: Math.max(songIds.indexOf(startSongId ?? ''), 0), shuffled };
+  }
+  const rest = shuffleArray(songIds.filter(id => id !== startSongId));
+  return {
+    playlistId: playlist.id,
+    songIds: startSongId && songIds.includes(startSongId) ? [startSongId, ...rest] : rest,
+    position: 0,
+    shuffled,
+  };
+};
+
+/**
+ * Brings a queue up to date after its playlist was edited. An unshuffled
+ * queue follows the playlist's order; a shuffled one keeps its order and
+ * appends new songs. The current song is tracked by ID, so deleting or
+ * reordering other songs never moves playback to a different track. If the
+ * current song itself was removed, the next surviving song takes its place.
+ */
+export const syncPlayQueue = (queue: PlayQueue, playlist: Playlist): PlayQueue | null => {
+  const playlistIds = getPlaylistSongIds(playlist);
+  const available = new Set(playlistIds);
+
+  let songIds: string[];
+  if (queue.shuffled) {
+    const kept = queue.songIds.filter(id => available.has(id));
+    const keptSet = new Set(kept);
+    songIds = [...kept, ...playlistIds.filter(id => !keptSet.has(id))];
+  } else {
+    songIds = playlistIds;
+  }
+
+  const candidates = queue.songIds.slice(queue.position).filter(id => available.has(id));
+  if (candidates.length === 0) return null;
+  const position = songIds.indexOf(candidates[0]);
+
+  if (position === queue.position && songIds.length === queue.songIds.length && songIds.every((id, i) => id === queue.songIds[i])) {
+    return queue;
+  }
+  return { ...queue, songIds, position };
+};
+
+/** Turns shuffle on or off without interrupting the current song. */
+export const setQueueShuffled = (queue: PlayQueue, playlist: Playlist, shuffled: boolean): PlayQueue => {
+  if (queue.shuffled === shuffled) return queue;
+  const currentId = queue.songIds[queue.position];
+  return createPlayQueue(playlist, currentId, shuffled) ?? queue;
+};
+
+export const getCurrentSongId = (queue: PlayQueue): string => queue.songIds[queue.position];
+
+/** Position of the song after the current one, or null when playback should stop. */
+export const getNextPosition = (queue: PlayQueue, repeatMode: RepeatMode): number | null => {
+  if (queue.position + 1 < queue.songIds.length) return queue.position + 1;
+  return repeatMode === 'all' ? 0 : null;
+};
+
+export const getPrevPosition = (queue: PlayQueue, repeatMode: RepeatMode): number | null => {
+  if (queue.position > 0) return queue.position - 1;
+  return repeatMode === 'all' ? queue.songIds.length - 1 : null;
+};
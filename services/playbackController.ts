@@ -0,0 +1,105 @@
+import type { PlayQueue, RepeatMode, Song, UpNextItem } from '../types';
+import type { PlayerAdapter } from './playerAdapter';
+import { getNextPosition, getPrevPosition } from './playQueue';
+
+// Pressing previous later than this into a song restarts it instead of going back.
+const PREV_RESTARTS_AFTER_SECONDS = 3;
+
+export interface PlaybackContext {
+  queue: PlayQueue | null;
+  upNext: UpNextItem[];
+  playingUpNext: UpNextItem | null;
+  repeatMode: RepeatMode;
+  currentSong: Song | null;
+}
+
+/**
+ * What the caller has to change after a skip. Anything that stays within the
+ * current song (restarting, seeking) has already been done on the player.
+ */
+export type PlaybackTransition =
+  | { type: 'up-next'; item: UpNextItem; upNext: UpNextItem[] }
+  | { type: 'queue'; position: number }
+  | { type: 'end-of-queue' }
+  | { type: 'none' };
+
+/** Plays the song again from its clip start. */
+export const restartSong = (player: PlayerAdapter | null, song: Song | null) => {
+  player?.seek(song?.startSeconds ?? 0);
+  player?.play();
+};
+
+// Landing on the song that is already loaded (e.g. repeat-all over one song) won't trigger a reload.
+const landOn = (context: PlaybackContext, player: PlayerAdapter | null, songId: string | undefined) => {
+  if (songId !== undefined && songId === context.currentSong?.id) restartSong(player, context.currentSong);
+};
+
+// The song a transition moves to, if it moves anywhere.
+const getTransitionSongId = (context: PlaybackContext, transition: PlaybackTransition) => {
+  if (transition.type === 'up-next') return transition.item.song.id;
+  if (transition.type === 'queue') return context.queue?.songIds[transition.position];
+  return undefined;
+};
+
+// Where skipping forward leads, before anything is done to the player.
+const getNextTransition = (context: PlaybackContext): PlaybackTransition => {
+  if (context.upNext.length > 0) {
+    const [item, ...rest] = context.upNext;
+    return { type: 'up-next', item, upNext: rest };
+  }
+  if (!context.queue) return { type: 'end-of-queue' };
+  const position = getNextPosition(context.queue, context.repeatMode);
+  return position === null ? { type: 'end-of-queue' } : { type: 'queue', position };
+};
+
+/** Up Next plays ahead of the queue. */
+export const skipToNext = (context: PlaybackContext, player: PlayerAdapter | null): PlaybackTransition => {
+  const transition = getNextTransition(context);
+  landOn(context, player, getTransitionSongId(context, transition));
+  return transition;
+};
+
+export const skipToPrevious = (context: PlaybackContext, player: PlayerAdapter | null): PlaybackTransition => {
+  const { currentSong, queue, playingUpNext } = context;
+  if (!currentSong) return { type: 'none' };
+  const clipStart = currentSong.startSeconds ?? 0;
+
+  if ((player?.getCurrentTime() ?? 0) > clipStart + PREV_RESTARTS_AFTER_SECONDS) {
+    player?.seek(clipStart);
+    return { type: 'none' };
+  }
+  if (playingUpNext && queue) {
+    // Going back from an Up Next entry returns to the song it interrupted.
+    landOn(context, player, queue.songIds[queue.position]);
+    return { type: 'queue', position: queue.position };
+  }
+  const position = !playingUpNext && queue ? getPrevPosition(queue, context.repeatMode) : null;
+  if (position === null) {
+    player?.seek(clipStart);
+    return { type: 'none' };
+  }
+  landOn(context, player, queue!.songIds[position]);
+  return { type: 'queue', position };
+};
+
+/** Called when a song (or its clip) plays to the end. */
+export const finishSong = (context: PlaybackContext, player: PlayerAdapter | null): PlaybackTransition => {
+  if (!context.currentSong) return { type: 'end-of-queue' };
+  if (context.repeatMode === 'one') {
+    restartSong(player, context.currentSong);
+    return { type: 'none' };
+  }
+  return skipToNext(context, player);
+};
+
+/**
+ * The transition finishSong will make once the current song ends, worked out
+ * ahead of time so the next song can be preloaded. 'none' when the current
+ * song will simply play again, as with repeat one.
+ */
+export const peekFinishSong = (context: PlaybackContext): PlaybackTransition => {
+  if (!context.currentSong) return { type: 'end-of-queue' };
+  if (context.repeatMode === 'one') return { type: 'none' };
+  const transition = getNextTransition(context);
+  return getTransitionSongId(context, transition) === context.currentSong.id ? { type: 'none' } : transition;
+};
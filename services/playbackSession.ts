@@ -0,0 +1,69 @@
+import type { PlaybackSession, Playlist, PlayQueue, UpNextItem } from '../types';
+import { getCurrentSongId, syncPlayQueue } from './playQueue';
+
+const STORAGE_KEY = 'playbackSession';
+
+export const loadPlaybackSession = (): PlaybackSession | null => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error("Failed to parse playback session from localStorage", error);
+    return null;
+  }
+};
+
+export const savePlaybackSession = (session: PlaybackSession) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Sessions saved by older versions, or edited by hand, may not have the shape the player expects.
+const isPlayQueue = (value: unknown): value is PlayQueue =>
+  isObject(value) && typeof value.playlistId === 'string'
+  && Array.isArray(value.songIds) && value.songIds.every(id => typeof id === 'string')
+  && Number.isInteger(value.position) && (value.position as number) >= 0
+  && typeof value.shuffled === 'boolean';
+
+const isUpNextItem = (value: unknown): value is UpNextItem =>
+  isObject(value) && typeof value.key === 'string' && typeof value.playlistId === 'string'
+  && isObject(value.song) && typeof value.song.id === 'string' && typeof value.song.title === 'string';
+
+export const hasResumableSong = (session: PlaybackSession): boolean => !!(session.queue || session.playingUpNext);
+
+/**
+ * Checks a saved session against the library as loaded. Playback modes always
+ * survive; the song part is dropped if its song or playlist no longer exists,
+ * rather than resuming a different track in its place. A queue or Up Next
+ * entry that isn't shaped like one is dropped the same way.
+ */
+export const validatePlaybackSession = (session: PlaybackSession | null, playlists: Playlist[]): PlaybackSession | null => {
+  if (!session || typeof session !== 'object') return null;
+
+  const validated: PlaybackSession = {
+    queue: null,
+    playingUpNext: null,
+    elapsedSeconds: typeof session.elapsedSeconds === 'number' && session.elapsedSeconds > 0 ? session.elapsedSeconds : 0,
+    playbackMode: session.playbackMode === 'audio' ? 'audio' : 'video',
+    repeatMode: session.repeatMode === 'one' || session.repeatMode === 'all' ? session.repeatMode : 'off',
+    shuffleMode: session.shuffleMode === 'songs' ? 'songs' : 'off',
+    savedAt: session.savedAt,
+  };
+
+  const item = isUpNextItem(session.playingUpNext) ? session.playingUpNext : null;
+  const savedQueue = isPlayQueue(session.queue) ? session.queue : null;
+  const upNextSongExists = !!item && playlists.some(p => p.id === item.playlistId && p.songs.some(s => s.id === item.song.id));
+
+  const queuePlaylist = savedQueue ? playlists.find(p => p.id === savedQueue.playlistId) : undefined;
+  const queue = savedQueue && queuePlaylist ? syncPlayQueue(savedQueue, queuePlaylist) : null;
+  const queueSongExists = !!queue && !!savedQueue && getCurrentSongId(queue) === getCurrentSongId(savedQueue);
+
+  if (item) {
+    if (!upNextSongExists) return { ...validated, elapsedSeconds: 0 };
+    return { ...validated, playingUpNext: item, queue: queueSongExists ? queue : null };
+  }
+  if (!queueSongExists) return { ...validated, elapsedSeconds: 0 };
+  return { ...validated, queue };
+};
@@ -0,0 +1,58 @@
+export type PlayerState = 'unstarted' | 'playing' | 'paused' | 'buffering' | 'ended';
+
+export interface PlayerError {
+  code: string;
+  message: string; // Shown to the user as is
+}
+
+/**
+ * What the app needs from something that plays songs. `source` is whatever
+ * identifies a song to the backend: a YouTube video ID, or an audio URL.
+ * Commands issued before the backend is ready are queued, not dropped.
+ */
+export interface PlayerAdapter {
+  /** Loads a source and starts playing it from `startSeconds`. */
+  load(source: string, startSeconds?: number): void;
+  /** Loads a source paused at `startSeconds` and buffers it, so a later play() starts without a gap. */
+  preload(source: string, startSeconds?: number): void;
+  play(): void;
+  pause(): void;
+  seek(seconds: number): void;
+  /** 0–100 */
+  setVolume(volume: number): void;
+  getVolume(): number;
+  getCurrentTime(): number;
+  /** 0 while the duration isn't known yet. */
+  getDuration(): number;
+  getState(): PlayerState;
+  /** Returns a function that removes the listener. */
+  onStateChange(listener: (state: PlayerState) => void): () => void;
+  onError(listener: (error: PlayerError) => void): () => void;
+  destroy(): void;
+}
+
+/** The listener bookkeeping shared by the adapters. */
+export const createPlayerEvents = () => {
+  const stateListeners = new Set<(state: PlayerState) => void>();
+  const errorListeners = new Set<(error: PlayerError) => void>();
+  return {
+    onStateChange(listener: (state: PlayerState) => void) {
+      stateListeners.add(listener);
+      return () => { stateListeners.delete(listener); };
+    },
+    onError(listener: (error: PlayerError) => void) {
+      errorListeners.add(listener);
+      return () => { errorListeners.delete(listener); };
+    },
+    emitState(state: PlayerState) {
+      stateListeners.forEach(listener => listener(state));
+    },
+    emitError(error: PlayerError) {
+      errorListeners.forEach(listener => listener(error));
+    },
+    clear() {
+      stateListeners.clear();
+      errorListeners.clear();
+    },
+  };
+};
@@ -0,0 +1,39 @@
+import type { Playlist } from '../types';
+import { getLibrarySongs } from './listeningHistory';
+
+export const MAX_RATING = 5;
+
+export const TOP_RATED_ID = 'TOP_RATED';
+
+// As on the original iPod, My Top Rated collects the songs rated four stars or more.
+const TOP_RATED_MIN_RATING = 4;
+
+/** Ratings belong to the song, so every copy of it across playlists gets the new rating. */
+export const applySongRating = (playlists: Playlist[], songId: string, rating: number): Playlist[] => {
+  const clamped = Math.min(Math.max(Math.round(rating), 0), MAX_RATING);
+  return playlists.map(p => {
+    if (!p.songs.some(s => s.id === songId)) return p;
+    return { ...p, songs: p.songs.map(s => s.id === songId ? { ...s, rating: clamped || undefined } : s) };
+  });
+};
+
+export const findSongRating = (playlists: Playlist[], songId: string): number => {
+  for (const playlist of playlists) {
+    const song = playlist.songs.find(s => s.id === songId);
+    if (song) return song.rating ?? 0;
+  }
+  return 0;
+};
+
+/** The built-in My Top Rated playlist, best-rated songs first. It follows the ratings, so it is read-only. */
+export const createTopRatedPlaylist = (playlists: Playlist[]): Playlist => ({
+  id: TOP_RATED_ID,
+  name: 'My Top Rated',
+  songs: getLibrarySongs(playlists)
+    .filter(song => (song.rating ?? 0) >= TOP_RATED_MIN_RATING)
+    .sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0)),
+  readOnly: true,
+});
+
+export const formatRating = (rating: number): string =>
+  '★'.repeat(rating) + '☆'.repeat(MAX_RATING - rating);
@@ -0,0 +1,105 @@
+import type { AppSettings, SettingKey } from '../types';
+import { LANGUAGE_NAMES } from './i18n';
+
+const STORAGE_KEY = 'settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  clickSound: true,
+  clickVolume: 100,
+  wheelSensitivity: 1,
+  wheelAcceleration: true,
+  vibration: 'medium',
+  defaultPlaybackMode: 'video',
+  defaultRepeatMode: 'off',
+  crossfadeSeconds: 0,
+  backlightSeconds: null,
+  language: 'en',
+};
+
+export interface SettingOption<T> {
+  value: T;
+  label: string;
+}
+
+/** Each setting's label and the values the Settings screen offers for it, in the order shown. */
+export const SETTING_CHOICES: { [K in SettingKey]: { label: string; options: SettingOption<AppSettings[K]>[] } } = {
+  clickSound: { label: 'Click Sound', options: [{ value: true, label: 'On' }, { value: false, label: 'Off' }] },
+  clickVolume: { label: 'Click Volume', options: [25, 50, 75, 100].map(value => ({ value, label: `${value}%` })) },
+  wheelSensitivity: {
+    label: 'Wheel Sensitivity',
+    options: [{ value: 0.5, label: 'Low' }, { value: 0.75, label: 'Medium Low' }, { value: 1, label: 'Normal' }, { value: 1.5, label: 'Medium High' }, { value: 2, label: 'High' }],
+  },
+  wheelAcceleration: { label: 'Wheel Acceleration', options: [{ value: true, label: 'On' }, { value: false, label: 'Off' }] },
+  vibration: {
+    label: 'Vibration',
+    options: [{ value: 'off', label: 'Off' }, { value: 'light', label: 'Light' }, { value: 'medium', label: 'Medium' }, { value: 'strong', label: 'Strong' }],
+  },
+  defaultPlaybackMode: { label: 'Default Mode', options: [{ value: 'audio', label: 'Audio' }, { value: 'video', label: 'Video' }] },
+  defaultRepeatMode: { label: 'Default Repeat', options: [{ value: 'off', label: 'Off' }, { value: 'one', label: 'One' }, { value: 'all', label: 'All' }] },
+  crossfadeSeconds: {
+    label: 'Crossfade',
+    options: [{ value: 0, label: 'Off' }, ...[2, 4, 6, 8, 12].map(value => ({ value, label: `${value} s` }))],
+  },
+  backlightSeconds: {
+    label: 'Backlight',
+    options: [
+      { value: 10, label: '10 s' }, { value: 30, label: '30 s' }, { value: 60, label: '1 min' },
+      { value: 120, label: '2 min' }, { value: 300, label: '5 min' }, { value: null, label: 'Always On' },
+    ],
+  },
+  language: { label: 'Language', options: Object.entries(LANGUAGE_NAMES).map(([value, label]) => ({ value: value as AppSettings['language'], label })) },
+};
+
+// The order settings are listed in on the Settings screen.
+export const SETTING_KEYS: SettingKey[] = ['clickSound', 'clickVolume', 'wheelSensitivity', 'wheelAcceleration', 'vibration', 'defaultPlaybackMode', 'defaultRepeatMode', 'crossfadeSeconds', 'backlightSeconds', 'language'];
+
+export const getSettingOptions = <K extends SettingKey>(key: K): SettingOption<AppSettings[K]>[] => SETTING_CHOICES[key].options;
+
+export const describeSetting = (settings: AppSettings, key: SettingKey): string =>
+  getSettingOptions(key).find(option => option.value === settings[key])?.label ?? '';
+
+/**
+ * Upgrades stored settings one version at a time: entry i turns version i + 1
+ * into version i + 2. Add an entry whenever a setting is renamed or its values
+ * change, and never edit an existing one.
+ */
+const MIGRATIONS: ((settings: Record<string, unknown>) => Record<string, unknown>)[] = [];
+
+export const SETTINGS_VERSION = MIGRATIONS.length + 1;
+
+interface StoredSettings {
+  version: number;
+  settings: Record<string, unknown>;
+}
+
+/** Reads settings from saved values. Settings that are missing or hold a value the screen doesn't offer get their defaults. */
+export const readSettings = (values: Record<string, unknown>): AppSettings => {
+  const settings = { ...DEFAULT_SETTINGS };
+  for (const key of SETTING_KEYS) {
+    const option = (getSettingOptions(key) as SettingOption<unknown>[]).find(o => o.value === values[key]);
+    if (option) (settings as Record<SettingKey, unknown>)[key] = option.value;
+  }
+  return settings;
+};
+
+/** Loads saved settings, falling back to the defaults for any that can't be read. */
+export const loadSettings = (): AppSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_SETTINGS;
+    const stored: StoredSettings = JSON.parse(saved);
+    let values = stored.settings ?? {};
+    for (let version = stored.version; version < SETTINGS_VERSION; version++) {
+      values = MIGRATIONS[version - 1](values);
+    }
+    return readSettings(values);
+  } catch (error) {
+    console.error("Failed to parse settings from localStorage", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  const stored: StoredSettings = { version: SETTINGS_VERSION, settings: { ...settings } };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+};
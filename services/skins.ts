@@ -0,0 +1,200 @@
+import type React from 'react';
+import type { Skin, SkinAppearance, SkinTokens, Theme } from '../types';
+
+const STORAGE_KEY = 'customSkins';
+
+export const SKIN_FILE_FORMAT = 'retro-ipod-skin';
+export const DEFAULT_SKIN_ID = 'light';
+
+export const SKIN_TOKEN_KEYS: (keyof SkinTokens)[] = [
+  'body', 'bodyBorder', 'screen', 'screenText', 'muted', 'divider', 'hover', 'track', 'field',
+  'header', 'headerText', 'highlight', 'highlightText', 'wheel', 'wheelText', 'centerButton',
+];
+
+const CLASSIC_WHITE: Skin = {
+  id: 'light',
+  name: 'Classic White',
+  appearance: 'light',
+  tokens: {
+    body: '#e4e4e7', bodyBorder: '#a1a1aa',
+    screen: '#ffffff', screenText: '#000000',
+    muted: '#6b7280', divider: '#e4e4e7', hover: '#f4f4f5', track: '#d4d4d8', field: '#ffffff',
+    header: '#f4f4f5', headerText: '#000000',
+    highlight: '#2563eb', highlightText: '#ffffff',
+    wheel: '#d4d4d8', wheelText: '#52525b', centerButton: '#a1a1aa',
+  },
+};
+
+const BLACK: Skin = {
+  id: 'dark',
+  name: 'Black',
+  appearance: 'dark',
+  tokens: {
+    body: '#18181b', bodyBorder: '#3f3f46',
+    screen: '#000000', screenText: '#e5e7eb',
+    muted: '#6b7280', divider: '#27272a', hover: '#27272a', track: '#3f3f46', field: '#3f3f46',
+    header: '#27272a', headerText: '#ffffff',
+    highlight: '#2563eb', highlightText: '#ffffff',
+    wheel: '#3f3f46', wheelText: '#d1d5db', centerButton: '#52525b',
+  },
+};
+
+export const BUILT_IN_SKINS: Skin[] = [
+  CLASSIC_WHITE,
+  BLACK,
+  {
+    id: 'u2',
+    name: 'U2 Special Edition',
+    appearance: 'dark',
+    tokens: {
+      body: '#111111', bodyBorder: '#000000',
+      screen: '#000000', screenText: '#e5e7eb',
+      muted: '#6b7280', divider: '#27272a', hover: '#1f1f1f', track: '#3f3f46', field: '#27272a',
+      header: '#1f1f1f', headerText: '#ffffff',
+      highlight: '#dc2626', highlightText: '#ffffff',
+      wheel: '#b91c1c', wheelText: '#111111', centerButton: '#1a1a1a',
+    },
+  },
+  {
+    id: 'mini-blue',
+    name: 'iPod mini Blue',
+    appearance: 'light',
+    tokens: {
+      body: '#7fb2d9', bodyBorder: '#5b8fb9',
+      screen: '#ffffff', screenText: '#000000',
+      muted: '#6b7280', divider: '#dbe4ee', hover: '#eef2f7', track: '#cbd5e1', field: '#ffffff',
+      header: '#eef2f7', headerText: '#000000',
+      highlight: '#3b82f6', highlightText: '#ffffff',
+      wheel: '#eef2f7', wheelText: '#5b8fb9', centerButton: '#7fb2d9',
+    },
+  },
+  {
+    id: 'mini-pink',
+    name: 'iPod mini Pink',
+    appearance: 'light',
+    tokens: {
+      body: '#e9a2c0', bodyBorder: '#c97a9c',
+      screen: '#ffffff', screenText: '#000000',
+      muted: '#6b7280', divider: '#f1dbe5', hover: '#f8edf2', track: '#e5cbd6', field: '#ffffff',
+      header: '#f8edf2', headerText: '#000000',
+      highlight: '#db2777', highlightText: '#ffffff',
+      wheel: '#f8edf2', wheelText: '#c97a9c', centerButton: '#e9a2c0',
+    },
+  },
+  {
+    id: 'mini-green',
+    name: 'iPod mini Green',
+    appearance: 'light',
+    tokens: {
+      body: '#a8d08d', bodyBorder: '#7fae62',
+      screen: '#ffffff', screenText: '#000000',
+      muted: '#6b7280', divider: '#dcebd2', hover: '#eff6ea', track: '#cfe0c4', field: '#ffffff',
+      header: '#eff6ea', headerText: '#000000',
+      highlight: '#16a34a', highlightText: '#ffffff',
+      wheel: '#eff6ea', wheelText: '#7fae62', centerButton: '#a8d08d',
+    },
+  },
+  {
+    id: 'first-gen',
+    name: '1st Gen LCD',
+    appearance: 'light',
+    tokens: {
+      body: '#f4f4f5', bodyBorder: '#a1a1aa',
+      screen: '#a7b58c', screenText: '#1f2a14',
+      muted: '#4b5a35', divider: '#8c9a72', hover: '#97a67c', track: '#8c9a72', field: '#b9c6a0',
+      header: '#97a67c', headerText: '#1f2a14',
+      highlight: '#1f2a14', highlightText: '#a7b58c',
+      wheel: '#e4e4e7', wheelText: '#71717a', centerButton: '#e4e4e7',
+    },
+  },
+];
+
+export class SkinImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SkinImportError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Where a skin's missing colors come from.
+const getBaseTokens = (appearance: SkinAppearance): SkinTokens => ({ ...(appearance === 'dark' ? BLACK : CLASSIC_WHITE).tokens });
+
+// Anything the browser accepts as a CSS color, e.g. "#e4e4e7", "rgb(0 0 0)" or "hotpink".
+const isColor = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '' && CSS.supports('color', value);
+
+/**
+ * Reads a skin file. Colors it leaves out come from Classic White or Black,
+ * depending on its appearance, so a skin can set just the colors it changes.
+ * Throws a SkinImportError describing the first problem found.
+ */
+export const parseSkinFile = (text: string): Skin => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SkinImportError('The file is not valid JSON.');
+  }
+  if (!isObject(data) || data.format !== SKIN_FILE_FORMAT) throw new SkinImportError('This is not a RetroPod skin file.');
+  if (typeof data.name !== 'string' || !data.name.trim()) throw new SkinImportError('The skin has no name.');
+  const appearance: SkinAppearance = data.appearance === 'dark' ? 'dark' : 'light';
+  if (data.tokens !== undefined && !isObject(data.tokens)) throw new SkinImportError('The skin has no colors.');
+
+  const colors: Record<string, unknown> = isObject(data.tokens) ? data.tokens : {};
+  const tokens = getBaseTokens(appearance);
+  for (const key of SKIN_TOKEN_KEYS) {
+    const color = colors[key];
+    if (color === undefined) continue;
+    if (!isColor(color)) throw new SkinImportError(`"${key}" is not a color.`);
+    tokens[key] = color.trim();
+  }
+  return { id: `custom-${crypto.randomUUID()}`, name: data.name.trim(), appearance, tokens };
+};
+
+/** Saved custom skins. Skins saved before a color was added get it from their base skin, as imports do. */
+export const loadCustomSkins = (): Skin[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = saved ? JSON.parse(saved) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.flatMap((skin: unknown): Skin[] => {
+      if (!isObject(skin) || typeof skin.id !== 'string' || typeof skin.name !== 'string' || !isObject(skin.tokens)) return [];
+      if (skin.appearance !== 'light' && skin.appearance !== 'dark') return [];
+      const colors = skin.tokens;
+      const tokens = getBaseTokens(skin.appearance);
+      for (const key of SKIN_TOKEN_KEYS) {
+        const color = colors[key];
+        if (typeof color === 'string') tokens[key] = color;
+      }
+      return [{ id: skin.id, name: skin.name, appearance: skin.appearance, tokens }];
+    });
+  } catch (error) {
+    console.error("Failed to parse custom skins from localStorage", error);
+    return [];
+  }
+};
+
+export const saveCustomSkins = (skins: Skin[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(skins));
+};
+
+/** Adds an imported skin, replacing a custom skin of the same name (ignoring case) but keeping its ID. */
+export const addCustomSkin = (skins: Skin[], skin: Skin): { skins: Skin[]; added: Skin } => {
+  const nameKey = skin.name.toLowerCase();
+  const existing = skins.find(s => s.name.toLowerCase() === nameKey);
+  if (!existing) return { skins: [...skins, skin], added: skin };
+  const added = { ...skin, id: existing.id };
+  return { skins: skins.map(s => s === existing ? added : s), added };
+};
+
+/** The skin with this ID, falling back to Classic White for skins that have since been removed. */
+export const findSkin = (skins: Skin[], id: Theme): Skin => skins.find(s => s.id === id) ?? CLASSIC_WHITE;
+
+const toCssVariable = (key: string) => `--skin-${key.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}`;
+
+/** The skin's colors as the CSS variables behind the `skin-*` Tailwind colors configured in index.html. */
+export const getSkinStyle = (skin: Skin): React.CSSProperties =>
+  Object.fromEntries(SKIN_TOKEN_KEYS.map(key => [toCssVariable(key), skin.tokens[key]])) as React.CSSProperties;
@@ -0,0 +1,171 @@
+import type { ListeningStats, Playlist, SmartPlaylistRules, SmartPlaylistSort, SmartRule, SmartRuleField, Song } from '../types';
+import { formatTime } from './timeFormat';
+import { getLibrarySongs } from './listeningHistory';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SMART_RULE_FIELDS: SmartRuleField[] = ['title', 'channel', 'added-within-days', 'play-count', 'rating', 'duration'];
+
+export const SMART_RULE_FIELD_LABELS: Record<SmartRuleField, string> = {
+  'title': 'Title',
+  'channel': 'Channel',
+  'added-within-days': 'Date Added',
+  'play-count': 'Play Count',
+  'rating': 'Rating',
+  'duration': 'Length',
+};
+
+export const SMART_PLAYLIST_SORTS: SmartPlaylistSort[] = ['title', 'recently-added', 'most-played', 'highest-rated', 'longest'];
+
+export const SMART_PLAYLIST_SORT_LABELS: Record<SmartPlaylistSort, string> = {
+  'title': 'Title',
+  'recently-added': 'Recently Added',
+  'most-played': 'Most Played',
+  'highest-rated': 'Highest Rated',
+  'longest': 'Longest',
+};
+
+/** The numeric rule values the wheel can adjust, with the step of one wheel tick and their range. */
+export const SMART_RULE_NUMBER_VALUES = {
+  days: { label: 'Within Days', step: 1, min: 1, max: 3650 },
+  above: { label: 'More Than', step: 1, min: 0, max: 9999 },
+  atLeast: { label: 'At Least', step: 1, min: 1, max: 5 },
+  minSeconds: { label: 'Shortest', step: 15, min: 0, max: 24 * 60 * 60 },
+  maxSeconds: { label: 'Longest', step: 15, min: 0, max: 24 * 60 * 60 },
+} as const;
+
+export type SmartRuleNumberKey = keyof typeof SMART_RULE_NUMBER_VALUES;
+export type SmartRuleValueKey = SmartRuleNumberKey | 'contains';
+
+// Each wheel tick on the limit moves between these; 0 stands for no limit.
+const LIMIT_STEPS = [0, 5, 10, 25, 50, 100, 250];
+
+export const createSmartRule = (field: SmartRuleField): SmartRule => {
+  switch (field) {
+    case 'title':
+    case 'channel': return { field, contains: '' };
+    case 'added-within-days': return { field, days: 30 };
+    case 'play-count': return { field, above: 0 };
+    case 'rating': return { field, atLeast: 4 };
+    case 'duration': return { field, minSeconds: 0, maxSeconds: 5 * 60 };
+  }
+};
+
+export const createSmartPlaylistRules = (): SmartPlaylistRules => ({
+  match: 'all',
+  rules: [createSmartRule('title')],
+  limit: null,
+  sort: 'title',
+});
+
+/** The editable values of a rule, in the order the rule editor lists them. */
+export const getSmartRuleValueKeys = (rule: SmartRule): SmartRuleValueKey[] => {
+  switch (rule.field) {
+    case 'title':
+    case 'channel': return ['contains'];
+    case 'added-within-days': return ['days'];
+    case 'play-count': return ['above'];
+    case 'rating': return ['atLeast'];
+    case 'duration': return ['minSeconds', 'maxSeconds'];
+  }
+};
+
+// A rule's value under `key`, or undefined when the rule's field has no such value.
+const getSmartRuleValue = (rule: SmartRule, key: SmartRuleValueKey): string | number | undefined => {
+  switch (rule.field) {
+    case 'title':
+    case 'channel': return key === 'contains' ? rule.contains : undefined;
+    case 'added-within-days': return key === 'days' ? rule.days : undefined;
+    case 'play-count': return key === 'above' ? rule.above : undefined;
+    case 'rating': return key === 'atLeast' ? rule.atLeast : undefined;
+    case 'duration': return key === 'minSeconds' ? rule.minSeconds : key === 'maxSeconds' ? rule.maxSeconds : undefined;
+  }
+};
+
+export const cycleSmartRuleField = (rule: SmartRule): SmartRule =>
+  createSmartRule(SMART_RULE_FIELDS[(SMART_RULE_FIELDS.indexOf(rule.field) + 1) % SMART_RULE_FIELDS.length]);
+
+/** Moves one numeric value of a rule by `ticks` wheel steps, keeping a length range's ends in order. */
+export const adjustSmartRule = (rule: SmartRule, key: SmartRuleNumberKey, ticks: number): SmartRule => {
+  const current = getSmartRuleValue(rule, key);
+  if (typeof current !== 'number') return rule;
+  const { step, min, max } = SMART_RULE_NUMBER_VALUES[key];
+  let value = Math.min(Math.max(current + ticks * step, min), max);
+  if (rule.field === 'duration') {
+    if (key === 'minSeconds') value = Math.min(value, rule.maxSeconds);
+    if (key === 'maxSeconds') value = Math.max(value, rule.minSeconds);
+  }
+  return { ...rule, [key]: value } as SmartRule;
+};
+
+export const adjustSmartPlaylistLimit = (limit: number | null, ticks: number): number | null => {
+  const index = LIMIT_STEPS.findIndex(step => step >= (limit ?? 0));
+  const next = LIMIT_STEPS[Math.min(Math.max((index === -1 ? LIMIT_STEPS.length - 1 : index) + ticks, 0), LIMIT_STEPS.length - 1)];
+  return next === 0 ? null : next;
+};
+
+export const describeSmartRuleValue = (rule: SmartRule, key: SmartRuleValueKey): string => {
+  const value = getSmartRuleValue(rule, key);
+  if (value === undefined) return '';
+  if (typeof value === 'string') return `"${value}"`;
+  if (key === 'atLeast') return '★'.repeat(value);
+  if (key === 'minSeconds' || key === 'maxSeconds') return formatTime(value);
+  return String(value);
+};
+
+export const describeSmartRule = (rule: SmartRule): string => {
+  switch (rule.field) {
+    case 'title': return `Title contains "${rule.contains}"`;
+    case 'channel': return `Channel contains "${rule.contains}"`;
+    case 'added-within-days': return `Added in the last ${rule.days} day${rule.days === 1 ? '' : 's'}`;
+    case 'play-count': return `Played more than ${rule.above} time${rule.above === 1 ? '' : 's'}`;
+    case 'rating': return `Rated ${'★'.repeat(rule.atLeast)} or more`;
+    case 'duration': return `Length ${formatTime(rule.minSeconds)}–${formatTime(rule.maxSeconds)}`;
+  }
+};
+
+const matchesSmartRule = (song: Song, rule: SmartRule, stats: ListeningStats, now: number): boolean => {
+  switch (rule.field) {
+    case 'title':
+    case 'channel': {
+      const text = (rule.field === 'title' ? song.title : (song.artist ?? song.channel)) ?? '';
+      return text.toLowerCase().includes(rule.contains.trim().toLowerCase());
+    }
+    case 'added-within-days':
+      return !!song.addedAt && now - Date.parse(song.addedAt) <= rule.days * DAY_MS;
+    case 'play-count':
+      return (stats[song.id]?.playCount ?? 0) > rule.above;
+    case 'rating':
+      return (song.rating ?? 0) >= rule.atLeast;
+    case 'duration':
+      return song.duration !== undefined && song.duration >= rule.minSeconds && song.duration <= rule.maxSeconds;
+  }
+};
+
+const compareForSort = (sort: SmartPlaylistSort, stats: ListeningStats) => (a: Song, b: Song): number => {
+  switch (sort) {
+    case 'title': return a.title.localeCompare(b.title, undefined, { sensitivity: 'base' });
+    case 'recently-added': return (b.addedAt ?? '').localeCompare(a.addedAt ?? '');
+    case 'most-played': return (stats[b.id]?.playCount ?? 0) - (stats[a.id]?.playCount ?? 0);
+    case 'highest-rated': return (b.rating ?? 0) - (a.rating ?? 0);
+    case 'longest': return (b.duration ?? 0) - (a.duration ?? 0);
+  }
+};
+
+/** Picks the library songs a smart playlist's rules select, sorted and limited. */
+export const evaluateSmartPlaylist = (rules: SmartPlaylistRules, librarySongs: Song[], stats: ListeningStats, now = Date.now()): Song[] => {
+  const matches = librarySongs.filter(song => {
+    if (rules.rules.length === 0) return true;
+    const test = (rule: SmartRule) => matchesSmartRule(song, rule, stats, now);
+    return rules.match === 'all' ? rules.rules.every(test) : rules.rules.some(test);
+  });
+  const sorted = matches.sort(compareForSort(rules.sort, stats));
+  return rules.limit ? sorted.slice(0, rules.limit) : sorted;
+};
+
+/** Fills in the songs of every smart playlist from the library as it is now. */
+export const resolveSmartPlaylists = (playlists: Playlist[], stats: ListeningStats): Playlist[] => {
+  if (!playlists.some(p => p.smart)) return playlists;
+  const librarySongs = getLibrarySongs(playlists);
+  return playlists.map(p => p.smart ? { ...p, songs: evaluateSmartPlaylist(p.smart, librarySongs, stats) } : p);
+};
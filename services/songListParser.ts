@@ -0,0 +1,51 @@
+import type { SongListEntry } from '../types';
+import { getPlaceholderTitle, parseYouTubeUrl } from './youtubeService';
+
+// Anything that looks like a link, with or without a scheme.
+const URL_PATTERN = /(?:https?:\/\/|www\.|youtu\.be\/|youtube\.com\/)\S+/gi;
+// Punctuation that chat messages and markdown commonly leave glued to the end of a link.
+const TRAILING_PUNCTUATION = /[)\]>"'.,;!]+$/;
+
+export const SONG_LIST_FILE_TYPES = '.txt,.m3u,.m3u8,text/plain,audio/x-mpegurl,audio/mpegurl';
+
+/**
+ * Extracts YouTube songs from free-form text: one URL per line, several URLs
+ * mixed into chat messages, or M3U/M3U8 playlists (whose #EXTINF titles are
+ * used for the following entry). Lines of prose without a link are ignored,
+ * while a lone token that isn't a YouTube URL is reported as invalid.
+ */
+export const parseSongList = (text: string): SongListEntry[] => {
+  const entries: SongListEntry[] = [];
+  const seenIds = new Set<string>();
+  let pendingTitle: string | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#')) {
+      if (/^#EXTINF:/i.test(line) && line.includes(',')) {
+        pendingTitle = line.slice(line.indexOf(',') + 1).trim() || null;
+      }
+      continue;
+    }
+
+    const candidates = line.match(URL_PATTERN) ?? (/\s/.test(line) ? [] : [line]);
+    for (const candidate of candidates) {
+      const url = candidate.replace(TRAILING_PUNCTUATION, '');
+      const parsed = parseYouTubeUrl(url);
+      if (!parsed) {
+        entries.push({ text: url, status: 'invalid', song: null });
+      } else if (seenIds.has(parsed.id)) {
+        entries.push({ text: url, status: 'duplicate', song: null });
+      } else {
+        const { id, startSeconds, endSeconds } = parsed;
+        seenIds.add(id);
+        entries.push({ text: url, status: 'valid', song: { id, title: pendingTitle ?? getPlaceholderTitle(id), startSeconds, endSeconds } });
+      }
+    }
+    pendingTitle = null;
+  }
+
+  return entries;
+};
@@ -0,0 +1,35 @@
+/** Formats seconds as m:ss, or h:mm:ss once the value reaches an hour. */
+export const formatTime = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const ss = s.toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${ss}` : `${m}:${ss}`;
+};
+
+/**
+ * Parses the timestamp formats YouTube accepts in links: plain seconds ("90",
+ * "90s"), unit notation ("1m30s", "1h2m3s") and clock notation ("1:30",
+ * "1:02:03"). Returns null for anything else.
+ */
+export const parseTimestamp = (value: string): number | null => {
+  const text = value.trim().toLowerCase();
+  if (!text) return null;
+
+  if (/^\d+(\.\d+)?$/.test(text)) return Math.floor(parseFloat(text));
+
+  const units = text.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+  if (units && (units[1] || units[2] || units[3])) {
+    return Number(units[1] ?? 0) * 3600 + Number(units[2] ?? 0) * 60 + Number(units[3] ?? 0);
+  }
+
+  const clock = text.match(/^(\d+):(\d{1,2})(?::(\d{1,2}))?$/);
+  if (clock) {
+    return clock[3] !== undefined
+      ? Number(clock[1]) * 3600 + Number(clock[2]) * 60 + Number(clock[3])
+      : Number(clock[1]) * 60 + Number(clock[2]);
+  }
+
+  return null;
+};
@@ -0,0 +1,36 @@
+import type { Playlist, Song, UpNextItem } from '../types';
+
+const STORAGE_KEY = 'upNext';
+
+export const createUpNextItem = (song: Song, playlistId: string): UpNextItem => ({
+  key: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  playlistId,
+  song,
+});
+
+export const loadUpNext = (): UpNextItem[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed.filter(item => item && typeof item.key === 'string' && item.song) : [];
+  } catch (error) {
+    console.error("Failed to parse Up Next from localStorage", error);
+    return [];
+  }
+};
+
+export const saveUpNext = (items: UpNextItem[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+};
+
+/** Prefers the library's copy of a queued song so edits and backfilled metadata show up. */
+export const resolveUpNextSong = (item: UpNextItem, playlists: Playlist[]): Song =>
+  playlists.find(p => p.id === item.playlistId)?.songs.find(s => s.id === item.song.id) ?? item.song;
+
+export const moveUpNextItem = (items: UpNextItem[], from: number, to: number): UpNextItem[] => {
+  if (to < 0 || to >= items.length || from === to) return items;
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+};
@@ -0,0 +1,177 @@
+import { createPlayerEvents, type PlayerAdapter, type PlayerState } from './playerAdapter';
+
+// --- Type definition for YouTube Player API ---
+// Only the parts of the iframe API used here; see https://developers.google.com/youtube/iframe_api_reference.
+interface YouTubePlayerEvent {
+  data: number; // A YT.PlayerState value for onStateChange, an error code for onError
+}
+
+interface YouTubePlayerOptions {
+  height: string;
+  width: string;
+  videoId: string;
+  playerVars: Record<string, number>;
+  events: {
+    onReady: () => void;
+    onStateChange: (event: YouTubePlayerEvent) => void;
+    onError: (event: YouTubePlayerEvent) => void;
+  };
+}
+
+interface YouTubePlayer {
+  loadVideoById(options: { videoId: string; startSeconds: number }): void;
+  playVideo(): void;
+  pauseVideo(): void;
+  seekTo(seconds: number, allowSeekAhead: boolean): void;
+  setVolume(volume: number): void;
+  mute(): void;
+  unMute(): void;
+  getCurrentTime(): number | undefined;
+  getDuration(): number | undefined;
+  getPlayerState(): number;
+  destroy(): void;
+}
+
+declare global {
+  interface Window {
+    onYouTubeIframeAPIReady: () => void;
+    YT?: {
+      Player: new (elementId: string, options: YouTubePlayerOptions) => YouTubePlayer;
+      PlayerState: { PLAYING: number };
+    };
+  }
+}
+
+// YT.PlayerState values; "cued" (5) counts as not started.
+const YOUTUBE_STATES: Record<number, PlayerState> = {
+  [-1]: 'unstarted',
+  0: 'ended',
+  1: 'playing',
+  2: 'paused',
+  3: 'buffering',
+  5: 'unstarted',
+};
+
+const YOUTUBE_ERRORS: Record<number, string> = {
+  2: 'This video ID is invalid.',
+  5: "This video can't be played here.",
+  100: 'This video was removed or made private.',
+  101: "This video's owner doesn't allow playback outside YouTube.",
+  150: "This video's owner doesn't allow playback outside YouTube.",
+};
+
+// The iframe API script loads asynchronously; callers may arrive before or after it is ready.
+const whenYouTubeApiReady = (callback: () => void) => {
+  if (window.YT?.Player) {
+    callback();
+    return;
+  }
+  const previous = window.onYouTubeIframeAPIReady;
+  window.onYouTubeIframeAPIReady = () => {
+    previous?.();
+    callback();
+  };
+};
+
+/** Plays YouTube videos in an iframe that replaces the element with `elementId`. */
+export const createYouTubePlayerAdapter = (elementId: string): PlayerAdapter => {
+  const events = createPlayerEvents();
+  let player: YouTubePlayer | null = null;
+  let isReady = false;
+  let isDestroyed = false;
+  let volume = 100;
+  let queued: (() => void)[] = [];
+  let initialLoad: { videoId: string; startSeconds: number } | null = null;
+  // Cued videos don't buffer, so a preloaded video plays muted until it starts and is then paused back at this point.
+  let preloadingAt: number | null = null;
+
+  const whenReady = (command: () => void) => {
+    if (isReady) command();
+    else queued.push(command);
+  };
+
+  const createPlayer = () => {
+    if (isDestroyed || player || !initialLoad) return;
+    player = new window.YT.Player(elementId, {
+      height: '150',
+      width: '100%',
+      videoId: initialLoad.videoId,
+      playerVars: { 'autoplay': 1, 'controls': 0, 'start': Math.floor(initialLoad.startSeconds) },
+      events: {
+        'onReady': () => {
+          isReady = true;
+          player.setVolume(volume);
+          queued.forEach(command => command());
+          queued = [];
+        },
+        'onStateChange': (event: YouTubePlayerEvent) => {
+          if (preloadingAt !== null && event.data === window.YT.PlayerState.PLAYING) {
+            player.pauseVideo();
+            player.seekTo(preloadingAt, true);
+            player.unMute();
+            preloadingAt = null;
+          }
+          const state = YOUTUBE_STATES[event.data];
+          if (state) events.emitState(state);
+        },
+        'onError': (event: YouTubePlayerEvent) => {
+          events.emitError({ code: `youtube-${event.data}`, message: YOUTUBE_ERRORS[event.data] ?? "This video couldn't be played." });
+        },
+      },
+    });
+  };
+
+  const load = (videoId: string, startSeconds = 0) => {
+    if (player) {
+      whenReady(() => player.loadVideoById({ videoId, startSeconds }));
+      return;
+    }
+    // The player is built around its first video; later loads before then just replace it.
+    const isFirstRequest = !initialLoad;
+    initialLoad = { videoId, startSeconds };
+    if (isFirstRequest) whenYouTubeApiReady(createPlayer);
+  };
+
+  // Loading or playing before a preloaded video has started plays it with sound.
+  const stopPreloading = () => {
+    if (preloadingAt === null) return;
+    preloadingAt = null;
+    whenReady(() => player.unMute());
+  };
+
+  return {
+    load(videoId, startSeconds = 0) {
+      stopPreloading();
+      load(videoId, startSeconds);
+    },
+    preload(videoId, startSeconds = 0) {
+      preloadingAt = startSeconds;
+      whenReady(() => player.mute());
+      load(videoId, startSeconds);
+    },
+    play() {
+      stopPreloading();
+      whenReady(() => player.playVideo());
+    },
+    pause() { whenReady(() => player.pauseVideo()); },
+    seek(seconds) { whenReady(() => player.seekTo(seconds, true)); },
+    setVolume(next) {
+      volume = next;
+      if (isReady) player.setVolume(next);
+    },
+    getVolume: () => volume,
+    getCurrentTime: () => isReady ? player.getCurrentTime() ?? 0 : 0,
+    getDuration: () => isReady ? player.getDuration() ?? 0 : 0,
+    getState: () => isReady ? YOUTUBE_STATES[player.getPlayerState()] ?? 'unstarted' : 'unstarted',
+    onStateChange: events.onStateChange,
+    onError: events.onError,
+    destroy() {
+      isDestroyed = true;
+      events.clear();
+      if (typeof player?.destroy === 'function') player.destroy();
+      player = null;
+      isReady = false;
+      queued = [];
+    },
+  };
+};
@@ -1,5 +1,33 @@
-export const getYouTubeId = (url: string): string | null => {
+import { parseTimestamp } from './timeFormat';
+
+export interface ParsedYouTubeUrl {
+  id: string;
+  startSeconds?: number;
+  endSeconds?: number;
+}
+
+export const parseYouTubeUrl = (url: string): ParsedYouTubeUrl | null => {
   const regExp = /^.*(youtu.be\/|v\/|u\/\w\/|embed\/|watch\?v=|&v=)([^#&?]*).*/;
   const match = url.match(regExp);
-  return (match && match[2].length === 11) ? match[2] : null;
+  if (!match || match[2].length !== 11) return null;
+
+  // Timestamps can appear in the query string (?t=, &start=, &end=) or the fragment (#t=).
+  const parsed: ParsedYouTubeUrl = { id: match[2] };
+  for (const [, name, value] of url.matchAll(/[?&#](t|start|end)=([^&#]+)/g)) {
+    const seconds = parseTimestamp(decodeURIComponent(value));
+    if (seconds === null) continue;
+    if (name === 'end') parsed.endSeconds = seconds;
+    else parsed.startSeconds = seconds;
+  }
+  if (parsed.endSeconds !== undefined && parsed.endSeconds <= (parsed.startSeconds ?? 0)) {
+    delete parsed.endSeconds;
+  }
+  return parsed;
 };
+
+export const getYouTubeId = (url: string): string | null => parseYouTubeUrl(url)?.id ?? null;
+
+// Title given to songs until their real metadata has been resolved.
+export const getPlaceholderTitle = (videoId: string): string => `Song: ${videoId}`;
+
+export const getVideoUrl = (videoId: string): string => `https://www.youtube.com/watch?v=${videoId}`;
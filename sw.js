@@ -7,7 +7,38 @@ const urlsToCache = [
   '/App.tsx',
   '/types.ts',
   '/components/icons.tsx',
+  '/components/CoverFlow.tsx',
   '/services/youtubeService.ts',
+  '/services/inputBindings.ts',
+  '/services/libraryTransfer.ts',
+  '/services/songListParser.ts',
+  '/services/metadataService.ts',
+  '/services/timeFormat.ts',
+  '/services/playQueue.ts',
+  '/services/upNext.ts',
+  '/services/libraryStore.ts',
+  '/services/libraryHistory.ts',
+  '/services/playbackSession.ts',
+  '/services/listeningHistory.ts',
+  '/services/smartPlaylists.ts',
+  '/services/ratings.ts',
+  '/services/onTheGo.ts',
+  '/services/playerAdapter.ts',
+  '/services/youtubePlayerAdapter.ts',
+  '/services/audioPlayerAdapter.ts',
+  '/services/fakePlayerAdapter.ts',
+  '/services/audioTags.ts',
+  '/services/localAudio.ts',
+  '/services/playbackController.ts',
+  '/services/crossfade.ts',
+  '/services/lyrics.ts',
+  '/services/navigationStack.ts',
+  '/services/musicLibrary.ts',
+  '/services/skins.ts',
+  '/services/settings.ts',
+  '/services/i18n.ts',
+  '/hooks/useInputBindings.ts',
+  '/hooks/useMediaQuery.ts',
   '/icon.svg',
   'https://cdn.tailwindcss.com',
   'https://www.youtube.com/iframe_api',
@@ -1,27 +1,256 @@
+// Songs saved before local files existed have no `source` and are YouTube videos.
+export type SongSource = 'youtube' | 'local';
+
 export interface Song {
-  id: string; // YouTube video ID
+  id: string; // YouTube video ID, or a generated "local-" ID for local files
+  source?: SongSource;
   title: string;
+  channel?: string;
+  artist?: string; // From the file's tags; YouTube songs only have a channel
+  album?: string;
+  duration?: number; // Seconds
+  startSeconds?: number; // Clip start; playback begins here instead of at 0
+  endSeconds?: number; // Clip end; reaching it counts as the song ending
+  addedAt?: string; // ISO timestamp; missing for songs added before it was recorded
+  rating?: number; // 0-5 stars; unrated songs leave it unset
+}
+
+/** A local audio file as kept in browser storage, keyed by its song's ID. */
+export interface LocalAudioFile {
+  id: string;
+  name: string; // Original file name
+  audio: Blob;
+  artwork?: Blob;
+}
+
+export interface SongMetadata {
+  title?: string;
+  channel?: string;
+  duration?: number; // Seconds
 }
 
 export interface Playlist {
   id: string; // UUID
   name: string;
   songs: Song[];
+  readOnly?: boolean; // Generated playlists (e.g. Recently Played) that can be played but not edited
+  smart?: SmartPlaylistRules; // Songs come from these rules instead; `songs` is stored empty
+}
+
+export type SmartRule =
+  | { field: 'title' | 'channel'; contains: string }
+  | { field: 'added-within-days'; days: number }
+  | { field: 'play-count'; above: number }
+  | { field: 'rating'; atLeast: number }
+  | { field: 'duration'; minSeconds: number; maxSeconds: number };
+
+export type SmartRuleField = SmartRule['field'];
+
+export type SmartPlaylistSort = 'title' | 'recently-added' | 'most-played' | 'highest-rated' | 'longest';
+
+export interface SmartPlaylistRules {
+  match: 'all' | 'any';
+  rules: SmartRule[];
+  limit: number | null; // null = no limit
+  sort: SmartPlaylistSort;
 }
 
+export interface SongStats {
+  playCount: number;
+  skipCount: number; // Times the song was left before it counted as played
+  listenSeconds: number;
+  lastPlayedAt?: string; // ISO timestamp of the last counted play
+}
+
+export type ListeningStats = Record<string, SongStats>; // Keyed by YouTube ID
+
 export type View = 
   | 'main-menu' 
   | 'playlists' 
   | 'playlist-view' 
+  | 'music'
+  | 'music-songs'
+  | 'music-artists'
+  | 'music-albums'
+  | 'music-search'
+  | 'music-search-results'
+  | 'cover-flow'
   | 'add-song' 
+  | 'bulk-add-review'
   | 'now-playing'
+  | 'up-next'
+  | 'up-next-item-menu'
   | 'select-playlist-for-song'
   | 'create-playlist-input'
   | 'song-menu'
+  | 'clip-editor'
+  | 'smart-playlist-editor'
+  | 'smart-rule-editor'
   | 'delete-song-confirm'
   | 'delete-playlist-confirm'
-  | 'shuffle-confirm';
+  | 'controls'
+  | 'settings'
+  | 'setting-choice'
+  | 'skins'
+  | 'reset-settings-confirm'
+  | 'library'
+  | 'import-confirm'
+  | 'import-report'
+  | 'lyrics-editor';
 
 export type PlaybackMode = 'audio' | 'video';
 
-export type RepeatMode = 'off' | 'one' | 'all';
\ No newline at end of file
+export type RepeatMode = 'off' | 'one' | 'all';
+
+export type ShuffleMode = 'off' | 'songs';
+
+// What turning the wheel does on the Now Playing screen.
+export type NowPlayingWheelMode = 'track' | 'scrub' | 'volume' | 'rating' | 'lyrics';
+
+export interface PlaybackSession {
+  queue: PlayQueue | null;
+  playingUpNext: UpNextItem | null; // Set when the session was on an Up Next entry
+  elapsedSeconds: number;
+  playbackMode: PlaybackMode;
+  repeatMode: RepeatMode;
+  shuffleMode: ShuffleMode;
+  savedAt: string; // ISO timestamp
+}
+
+export interface UpNextItem {
+  key: string; // Unique per entry, since the same song can be queued twice
+  playlistId: string; // Playlist the song was queued from
+  song: Song; // Snapshot, so the entry still plays if the song is later removed from its playlist
+}
+
+export interface PlayQueue {
+  playlistId: string;
+  songIds: string[]; // YouTube IDs in the order they will play
+  position: number; // Index into songIds of the current song
+  shuffled: boolean;
+}
+
+export type WheelAction = 'menu' | 'menu-long-press' | 'center' | 'center-long-press' | 'next' | 'prev' | 'play-pause';
+
+export interface InputBindings {
+  keys: Record<WheelAction, string[]>; // KeyboardEvent.key values
+  gamepadButtons: Record<WheelAction, number[]>; // Standard gamepad button indices
+}
+
+// The selected skin's ID. 'light' and 'dark' were the only themes before skins, and still name the Classic White and Black skins.
+export type Theme = string;
+
+// Which variant of the colors skins don't set (secondary text, hover states) a skin is drawn with.
+export type SkinAppearance = 'light' | 'dark';
+
+/** The colors a skin sets, exposed to the views as `skin-*` Tailwind colors through CSS variables. */
+export interface SkinTokens {
+  body: string; // The device's case
+  bodyBorder: string;
+  screen: string; // List background
+  screenText: string;
+  muted: string; // Secondary text on the screen, e.g. artists and hints
+  divider: string; // Lines between parts of the screen, and text field borders
+  hover: string; // Row under the pointer
+  track: string; // Empty part of progress bars and switches
+  field: string; // Text field background
+  header: string; // Title bar at the top of the screen
+  headerText: string;
+  highlight: string; // Selected row, progress bars
+  highlightText: string;
+  wheel: string;
+  wheelText: string; // Labels and icons on the wheel
+  centerButton: string;
+}
+
+export interface Skin {
+  id: string; // "custom-" prefixed for imported skins
+  name: string;
+  appearance: SkinAppearance;
+  tokens: SkinTokens;
+}
+
+export type VibrationStrength = 'off' | 'light' | 'medium' | 'strong';
+
+export type Language = 'en' | 'es' | 'fr' | 'de' | 'ja';
+
+/** Preferences from the Settings screen. The skin and controls are kept with the library instead. */
+export interface AppSettings {
+  clickSound: boolean;
+  clickVolume: number; // Percent
+  wheelSensitivity: number; // Scroll steps per wheel tick; 1 is the original iPod's feel
+  wheelAcceleration: boolean; // Fast spins scroll further
+  vibration: VibrationStrength;
+  defaultPlaybackMode: PlaybackMode; // Used when there is no saved session to restore
+  defaultRepeatMode: RepeatMode;
+  crossfadeSeconds: number; // How long songs overlap at a track change; 0 plays them back to back
+  backlightSeconds: number | null; // Idle time before the screen turns off; null keeps it on
+  language: Language;
+}
+
+export type SettingKey = keyof AppSettings;
+
+export interface LibrarySettings {
+  theme: Theme;
+  inputBindings: InputBindings;
+  appSettings: AppSettings;
+}
+
+export interface LibraryExport {
+  format: 'retro-ipod-library';
+  version: number;
+  exportedAt: string; // ISO timestamp
+  playlists: Playlist[];
+  settings: LibrarySettings;
+}
+
+export interface LibraryMergeReport {
+  playlistsAdded: string[]; // Names of playlists that didn't exist yet
+  playlistsMerged: string[]; // Names of existing playlists that received songs
+  songsAdded: number;
+  songsSkipped: number; // Songs already present in the matching playlist, or local songs whose file isn't stored here
+}
+
+export interface SongListEntry {
+  text: string; // The URL or line as it appeared in the pasted text or file
+  status: 'valid' | 'invalid' | 'duplicate';
+  song: Song | null; // Only set for valid entries
+}
+
+export type LibraryCommand =
+  | { type: 'delete-song'; playlistId: string; index: number; song: Song }
+  | { type: 'insert-song'; playlistId: string; index: number; song: Song }
+  | { type: 'delete-playlist'; index: number; playlist: Playlist }
+  | { type: 'insert-playlist'; index: number; playlist: Playlist }
+  | { type: 'move-song'; playlistId: string; from: number; to: number };
+
+// What a screen was opened on. Screens opened from it inherit these, so e.g. the
+// song menu still knows its playlist.
+export interface ScreenParams {
+  playlistId?: string; // playlist-view and the screens opened from it
+  songIndex?: number; // Index into that playlist's songs, for song-menu, clip-editor and delete-song-confirm
+  upNextIndex?: number; // up-next-item-menu
+  ruleIndex?: number; // smart-rule-editor; index into the draft's rules
+  collectionId?: string; // music-songs; which Music list of songs to show
+  settingKey?: SettingKey; // setting-choice; which setting's options to show
+  songId?: string; // lyrics-editor; which song's lyrics to edit
+}
+
+export interface NavigationEntry {
+  view: View;
+  params: ScreenParams;
+  selectedIndex: number; // Remembered while other screens are on top
+}
+
+// Where the user was when a command ran, restored when it is undone or redone.
+export interface NavigationContext {
+  view: View;
+  activePlaylistId: string | null;
+  selectedIndex: number;
+}
+
+export interface HistoryEntry {
+  command: LibraryCommand;
+  label: string; // e.g. "Delete Song", shown as "Undo Delete Song"
+  context: NavigationContext;
+}
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.METADATA_FETCHER': JSON.stringify(env.METADATA_FETCHER),
+        'process.env.PLAYER_BACKEND': JSON.stringify(env.PLAYER_BACKEND)
       },
       resolve: {
         alias: {